@@ -5,10 +5,16 @@ import {
   LiveServerMessage,
   Modality,
   FunctionDeclaration,
+  FunctionCall,
+  FunctionResponse,
+  Content,
+  GenerateContentResponse,
+  Part,
   Type,
   HarmCategory,
   HarmBlockThreshold,
 } from '@google/genai';
+import katex from 'katex';
 
 const WATERMARK_URL = "https://i.ibb.co/21jpMNhw/234421810-326887782452132-7028869078528396806-n-removebg-preview-1.png";
 const POLLINATIONS_BASE_URL = 'https://image.pollinations.ai/prompt/';
@@ -22,104 +28,780 @@ const KURDISH_VOICES = {
     kurmanji: { male: 'kurmanji_6', female: 'kurmanji_12' }
 };
 
-// --- Utility Functions ---
+// --- Voice Catalogue ---
+
+// Prebuilt Gemini voices. Gender is only used to pick the matching KurdishTTS
+// speaker, since that service offers one male and one female voice per dialect.
+type VoiceLanguage = 'sorani' | 'kurmanji' | 'arabic' | 'english';
+type VoiceGender = 'female' | 'male';
+
+interface PrebuiltVoice {
+  name: string;
+  style: string;
+  gender: VoiceGender;
+}
+
+const PREBUILT_VOICES: PrebuiltVoice[] = [
+  { name: 'Zephyr', style: 'Bright', gender: 'female' },
+  { name: 'Puck', style: 'Upbeat', gender: 'male' },
+  { name: 'Charon', style: 'Informative', gender: 'male' },
+  { name: 'Kore', style: 'Firm', gender: 'female' },
+  { name: 'Fenrir', style: 'Excitable', gender: 'male' },
+  { name: 'Leda', style: 'Youthful', gender: 'female' },
+  { name: 'Orus', style: 'Firm', gender: 'male' },
+  { name: 'Aoede', style: 'Breezy', gender: 'female' },
+  { name: 'Callirrhoe', style: 'Easy-going', gender: 'female' },
+  { name: 'Autonoe', style: 'Bright', gender: 'female' },
+  { name: 'Enceladus', style: 'Breathy', gender: 'male' },
+  { name: 'Iapetus', style: 'Clear', gender: 'male' },
+  { name: 'Umbriel', style: 'Easy-going', gender: 'male' },
+  { name: 'Algieba', style: 'Smooth', gender: 'male' },
+  { name: 'Despina', style: 'Smooth', gender: 'female' },
+  { name: 'Erinome', style: 'Clear', gender: 'female' },
+  { name: 'Algenib', style: 'Gravelly', gender: 'male' },
+  { name: 'Rasalgethi', style: 'Informative', gender: 'male' },
+  { name: 'Laomedeia', style: 'Upbeat', gender: 'female' },
+  { name: 'Achernar', style: 'Soft', gender: 'female' },
+  { name: 'Alnilam', style: 'Firm', gender: 'male' },
+  { name: 'Schedar', style: 'Even', gender: 'male' },
+  { name: 'Gacrux', style: 'Mature', gender: 'female' },
+  { name: 'Pulcherrima', style: 'Forward', gender: 'female' },
+  { name: 'Achird', style: 'Friendly', gender: 'male' },
+  { name: 'Zubenelgenubi', style: 'Casual', gender: 'male' },
+  { name: 'Vindemiatrix', style: 'Gentle', gender: 'female' },
+  { name: 'Sadachbia', style: 'Lively', gender: 'male' },
+  { name: 'Sadaltager', style: 'Knowledgeable', gender: 'male' },
+  { name: 'Sulafat', style: 'Warm', gender: 'female' },
+];
+
+const VOICE_LANGUAGES: { id: VoiceLanguage; label: string; previewText: string }[] = [
+  { id: 'sorani', label: 'Kurdish (Sorani)', previewText: 'سڵاو! من {name}م، ئەمە دەنگی منە.' },
+  { id: 'kurmanji', label: 'Kurdish (Kurmanji)', previewText: 'Silav! Ez {name} im, ev dengê min e.' },
+  { id: 'arabic', label: 'Arabic', previewText: 'مرحباً! أنا {name}، هكذا يبدو صوتي.' },
+  { id: 'english', label: 'English', previewText: "Hi! I'm {name}, and this is how I sound." },
+];
+
+interface VoicePreferences {
+  live: Record<VoiceLanguage, string>;
+  tts: Record<VoiceLanguage, string>;
+  liveLanguage: VoiceLanguage;
+}
+
+const VOICE_PREFERENCES_STORAGE_KEY = 'voice_preferences';
+const DEFAULT_VOICE_PREFERENCES: VoicePreferences = {
+  live: { sorani: 'Zephyr', kurmanji: 'Zephyr', arabic: 'Zephyr', english: 'Zephyr' },
+  tts: { sorani: 'Kore', kurmanji: 'Kore', arabic: 'Puck', english: 'Puck' },
+  liveLanguage: 'sorani',
+};
+
+function loadVoicePreferences(): VoicePreferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VOICE_PREFERENCES_STORAGE_KEY) || '{}');
+    return {
+      live: { ...DEFAULT_VOICE_PREFERENCES.live, ...stored.live },
+      tts: { ...DEFAULT_VOICE_PREFERENCES.tts, ...stored.tts },
+      liveLanguage: stored.liveLanguage ?? DEFAULT_VOICE_PREFERENCES.liveLanguage,
+    };
+  } catch {
+    return DEFAULT_VOICE_PREFERENCES;
+  }
+}
+
+function getVoiceGender(voiceName: string): VoiceGender {
+  return PREBUILT_VOICES.find((v) => v.name === voiceName)?.gender ?? 'female';
+}
+
+// Maps the translator's language labels ('Kurdish (Sorani)', 'Auto', ...) to a voice language.
+function toVoiceLanguage(language: string): VoiceLanguage {
+  if (language.includes('Kurmanji')) return 'kurmanji';
+  if (language.includes('Kurdish')) return 'sorani';
+  if (language === 'Arabic') return 'arabic';
+  return 'english';
+}
+
+// Preview clips are small, so they are cached for the page lifetime to avoid repeat TTS calls.
+const voicePreviewCache = new Map<string, string>();
+
+// --- Gemini Error Taxonomy ---
+
+// Every Gemini SDK or fetch failure is normalised into one of these so that retry
+// logic, key health and toast messages all agree on what went wrong.
+type GeminiErrorKind =
+  | 'rate-limited'
+  | 'quota-exhausted'
+  | 'safety-blocked'
+  | 'auth-denied'
+  | 'service-unavailable'
+  | 'network'
+  | 'cancelled'
+  | 'unknown';
+
+interface GeminiErrorOptions {
+  status?: number;
+  retryAfterMs?: number;
+  original?: unknown;
+}
+
+class GeminiError extends Error {
+  readonly kind: GeminiErrorKind = 'unknown';
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly original?: unknown;
+
+  constructor(message: string, options: GeminiErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.original = options.original;
+  }
+}
+
+class RateLimitedError extends GeminiError { readonly kind: GeminiErrorKind = 'rate-limited'; }
+class QuotaExhaustedError extends GeminiError { readonly kind: GeminiErrorKind = 'quota-exhausted'; }
+class SafetyBlockedError extends GeminiError { readonly kind: GeminiErrorKind = 'safety-blocked'; }
+class AuthDeniedError extends GeminiError { readonly kind: GeminiErrorKind = 'auth-denied'; }
+class ServiceUnavailableError extends GeminiError { readonly kind: GeminiErrorKind = 'service-unavailable'; }
+class NetworkError extends GeminiError { readonly kind: GeminiErrorKind = 'network'; }
+class CancelledError extends GeminiError { readonly kind: GeminiErrorKind = 'cancelled'; }
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+// Reads "retryDelay": "23s" (google.rpc.RetryInfo), "retry in 23.5s" or a Retry-After header
+const parseRetryAfterMs = (message: string, retryAfterHeader?: string | null): number | undefined => {
+  if (retryAfterHeader) {
+    const seconds = Number(retryAfterHeader);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfterHeader);
+    if (!Number.isNaN(date)) return Math.max(date - Date.now(), 0);
+  }
+  const match =
+    message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/i) ||
+    message.match(/(?:after|in) (\d+(?:\.\d+)?)\s?s\b/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const classifyGeminiError = (error: unknown): GeminiError => {
+  if (error instanceof GeminiError) return error;
+
+  const err = error as any;
+  const message = String(err?.message || err || 'Unknown error');
+  const rawStatus = err?.status ?? err?.code ?? err?.response?.status ?? err?.error?.code;
+  const status = typeof rawStatus === 'number' ? rawStatus : parseInt(rawStatus, 10) || undefined;
+  const retryAfterMs = parseRetryAfterMs(message, err?.response?.headers?.get?.('retry-after'));
+  const options = { status, retryAfterMs, original: error };
+
+  if (err?.name === 'AbortError') {
+    return new CancelledError('Cancelled', options);
+  }
+  if (err?.name === 'TypeError' && /fetch|network|load failed/i.test(message)) {
+    return new NetworkError(message, options);
+  }
+  if (/Failed to fetch|NetworkError|ERR_NETWORK|ERR_INTERNET_DISCONNECTED|network error/i.test(message)) {
+    return new NetworkError(message, options);
+  }
+  if (status === 401 || status === 403 || /API_KEY_INVALID|API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AuthDeniedError(message, options);
+  }
+  // Daily/billing quotas are not worth retrying today; per-minute quotas come
+  // with a retry delay and are treated as ordinary rate limits.
+  const mentionsQuota = /quota/i.test(message);
+  const isDailyQuota = /PerDay|per day|daily|limit: 0\b/i.test(message);
+  if (status === 402 || (mentionsQuota && (isDailyQuota || retryAfterMs === undefined))) {
+    return new QuotaExhaustedError(message, options);
+  }
+  if (status === 429 || mentionsQuota || /Too Many Requests|RESOURCE_EXHAUSTED|Resource has been exhausted|rate limit/i.test(message)) {
+    return new RateLimitedError(message, options);
+  }
+  if ((status !== undefined && status >= 500 && status < 600) || /Service Unavailable|Overloaded|UNAVAILABLE|DEADLINE_EXCEEDED|INTERNAL/.test(message)) {
+    return new ServiceUnavailableError(message, options);
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|blocked/i.test(message)) {
+    return new SafetyBlockedError(message, options);
+  }
+  return new GeminiError(message, options);
+};
+
+const isRetryableGeminiError = (error: GeminiError) =>
+  error instanceof RateLimitedError ||
+  error instanceof ServiceUnavailableError ||
+  error instanceof NetworkError;
+
+// Builds a classified error from a non-OK fetch response
+const errorFromResponse = async (response: Response, context: string): Promise<GeminiError> => {
+  let body = '';
+  try { body = await response.text(); } catch (e) { /* body is best-effort */ }
+  return classifyGeminiError({
+    message: `${context} (${response.status}): ${body.substring(0, 300) || response.statusText}`,
+    status: response.status,
+    response,
+  });
+};
+
+// generateContent does not throw on safety blocks; it returns an empty candidate instead
+const assertNotSafetyBlocked = (response: any) => {
+  const blockReason = response?.promptFeedback?.blockReason;
+  const finishReason = response?.candidates?.[0]?.finishReason;
+  if (blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockedError(`Blocked by safety filters (${blockReason || finishReason})`);
+  }
+};
+
+// setTimeout that rejects with CancelledError as soon as the signal aborts
+const abortableDelay = (ms: number, signal?: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError('Cancelled'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError('Cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new CancelledError('Cancelled');
+};
+
+// User-facing explanation for a toast or chat bubble
+const describeGeminiError = (error: GeminiError): string => {
+  const retryIn = error.retryAfterMs ? ` Try again in ${Math.ceil(error.retryAfterMs / 1000)}s.` : '';
+  switch (error.kind) {
+    case 'rate-limited': return `Too many requests.${retryIn || ' System cooling down.'}`;
+    case 'quota-exhausted': return 'Daily Quota Limit Reached. Please try again tomorrow.';
+    case 'safety-blocked': return 'Blocked by safety filters. Try a different prompt.';
+    case 'auth-denied': return 'Access denied. Check or select a valid API key.';
+    case 'service-unavailable': return `Service overloaded.${retryIn || ' Please try again later.'}`;
+    case 'network': return 'Network error. Check your connection.';
+    case 'cancelled': return 'Cancelled.';
+    default: return error.message.substring(0, 80);
+  }
+};
+
+// --- API Key Health Tracking ---
+
+// Each key in the vault keeps its own health so one throttled or exhausted key
+// does not slow down the others. The env/platform key is tracked the same way.
+interface KeyHealth {
+  cooldownUntil: number;
+  quotaExhaustedUntil: number;
+  consecutiveRateLimitErrors: number;
+  lastError: string | null;
+  lastErrorAt: number;
+}
+
+const QUOTA_EXHAUSTED_COOLDOWN_MS = 5 * 60000;
+
+const keyHealthStore = new Map<string, KeyHealth>();
+const keyHealthListeners = new Set<() => void>();
+
+const getKeyHealth = (key: string): KeyHealth => {
+  return keyHealthStore.get(key) || {
+    cooldownUntil: 0,
+    quotaExhaustedUntil: 0,
+    consecutiveRateLimitErrors: 0,
+    lastError: null,
+    lastErrorAt: 0,
+  };
+};
+
+const updateKeyHealth = (key: string, patch: Partial<KeyHealth>) => {
+  keyHealthStore.set(key, { ...getKeyHealth(key), ...patch });
+  keyHealthListeners.forEach(listener => listener());
+};
+
+const forgetKeyHealth = (key: string) => {
+  keyHealthStore.delete(key);
+  keyHealthListeners.forEach(listener => listener());
+};
+
+const subscribeKeyHealth = (listener: () => void) => {
+  keyHealthListeners.add(listener);
+  return () => { keyHealthListeners.delete(listener); };
+};
+
+// Earliest time the key may be used again
+const getKeyAvailableAt = (key: string) => {
+  const health = getKeyHealth(key);
+  return Math.max(health.cooldownUntil, health.quotaExhaustedUntil);
+};
+
+const isKeyQuotaExhausted = (key: string) => getKeyHealth(key).quotaExhaustedUntil > Date.now();
+
+const markKeySuccess = (key: string) => {
+  const health = getKeyHealth(key);
+  // Decay consecutive error count to slowly recover trust in the key
+  if (health.consecutiveRateLimitErrors > 0) {
+    updateKeyHealth(key, { consecutiveRateLimitErrors: health.consecutiveRateLimitErrors - 1 });
+  }
+};
+
+const markKeyError = (key: string, message: string) => {
+  updateKeyHealth(key, { lastError: message, lastErrorAt: Date.now() });
+};
+
+const markKeyRateLimited = (key: string, message: string, minWaitMs: number) => {
+  const consecutive = getKeyHealth(key).consecutiveRateLimitErrors + 1;
+  // Ramp up the penalty for keys that keep getting throttled
+  const penalty = Math.min(3000 * Math.pow(1.5, consecutive), 45000);
+  updateKeyHealth(key, {
+    consecutiveRateLimitErrors: consecutive,
+    cooldownUntil: Date.now() + Math.min(Math.max(penalty, minWaitMs), 60000),
+    lastError: message,
+    lastErrorAt: Date.now(),
+  });
+};
+
+const markKeyQuotaExhausted = (key: string, message: string, retryAfterMs?: number) => {
+  updateKeyHealth(key, {
+    quotaExhaustedUntil: Date.now() + (retryAfterMs || QUOTA_EXHAUSTED_COOLDOWN_MS),
+    lastError: message,
+    lastErrorAt: Date.now(),
+  });
+};
+
+// Records how a request on this key went. Every scheduled request reports here,
+// whether or not its caller retries.
+const markKeyOutcome = (key: string, error: GeminiError | null) => {
+  if (!key) return;
+  if (!error) {
+    markKeySuccess(key);
+  } else if (error instanceof QuotaExhaustedError) {
+    markKeyQuotaExhausted(key, error.message, error.retryAfterMs);
+  } else if (error instanceof RateLimitedError) {
+    // Server-provided retry delay, with a 2s buffer
+    markKeyRateLimited(key, error.message, error.retryAfterMs !== undefined ? error.retryAfterMs + 2000 : 0);
+  } else if (!(error instanceof CancelledError)) {
+    markKeyError(key, error.message);
+  }
+};
+
+// Round-robin over healthy keys starting at `cursor`. When every key is unhealthy,
+// fall back to the one that recovers first so callers can wait on its cooldown.
+const selectApiKey = (keys: string[], cursor: number): { key: string; index: number } => {
+  const now = Date.now();
+  for (let i = 0; i < keys.length; i++) {
+    const index = (cursor + i) % keys.length;
+    if (getKeyAvailableAt(keys[index]) <= now) return { key: keys[index], index };
+  }
+  let best = cursor % keys.length;
+  keys.forEach((key, index) => {
+    if (getKeyAvailableAt(key) < getKeyAvailableAt(keys[best])) best = index;
+  });
+  return { key: keys[best], index: best };
+};
+
+// --- Usage Ledger ---
+
+// Every scheduled Gemini call is written to IndexedDB so the Settings screen can
+// show per-key and per-model usage. Keys are stored masked, never in full.
+type UsageFeature = 'chat' | 'image' | 'edit' | 'video' | 'tts' | 'translate';
+
+interface UsageRecord {
+  id?: number;
+  timestamp: number;
+  key: string;
+  model: string;
+  feature: UsageFeature;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videoSeconds: number;
+  error: GeminiErrorKind | null;
+  // Output delivered for an earlier request (a finished Veo operation). It is
+  // not a request itself, so request counts and budgets skip it.
+  followUp?: boolean;
+}
+
+const USAGE_DB_NAME = 'zansti_usage';
+const USAGE_STORE = 'usage';
+const USAGE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+// Veo fast renders 8 second clips by default
+const VEO_VIDEO_SECONDS = 8;
+const USAGE_BUDGETS_STORAGE_KEY = 'usage_daily_budgets';
+const USAGE_BUDGET_WARNING_RATIO = 0.8;
+
+const usageListeners = new Set<(record: UsageRecord) => void>();
+let usageDbPromise: Promise<IDBDatabase> | null = null;
+
+const promisifyRequest = <T,>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const maskApiKey = (key: string) => {
+  if (key === process.env.API_KEY) return 'System key';
+  return `${key.substring(0, 4)}...${key.substring(key.length - 4)}`;
+};
+
+const openUsageDb = () => {
+  if (!usageDbPromise) {
+    usageDbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(USAGE_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(USAGE_STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(db => {
+      // Drop records past the retention window once per session
+      const range = IDBKeyRange.upperBound(Date.now() - USAGE_RETENTION_MS);
+      const cursorRequest = db.transaction(USAGE_STORE, 'readwrite').objectStore(USAGE_STORE).index('timestamp').openCursor(range);
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+      return db;
+    });
+  }
+  return usageDbPromise;
+};
+
+const subscribeUsage = (listener: (record: UsageRecord) => void) => {
+  usageListeners.add(listener);
+  return () => { usageListeners.delete(listener); };
+};
+
+const recordUsage = async (record: UsageRecord) => {
+  try {
+    const db = await openUsageDb();
+    await promisifyRequest(db.transaction(USAGE_STORE, 'readwrite').objectStore(USAGE_STORE).add(record));
+    usageListeners.forEach(listener => listener(record));
+  } catch (e) {
+    console.warn('Failed to record usage', e);
+  }
+};
+
+const getUsageSince = async (since: number): Promise<UsageRecord[]> => {
+  const db = await openUsageDb();
+  const index = db.transaction(USAGE_STORE, 'readonly').objectStore(USAGE_STORE).index('timestamp');
+  return promisifyRequest(index.getAll(IDBKeyRange.lowerBound(since)) as IDBRequest<UsageRecord[]>);
+};
+
+// Pulls token, image and video counts out of a generateContent response or a finished Veo operation
+const summarizeUsage = (result: any) => {
+  const usage = result?.usageMetadata;
+  const parts: any[] = result?.candidates?.[0]?.content?.parts || [];
+  const videos = result?.done ? result.response?.generatedVideos?.length || 0 : 0;
+  return {
+    inputTokens: usage?.promptTokenCount || 0,
+    outputTokens: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0),
+    images: parts.filter(p => p.inlineData?.mimeType?.startsWith('image/')).length,
+    videoSeconds: videos * VEO_VIDEO_SECONDS,
+  };
+};
+
+const startOfDay = (daysAgo = 0) => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - daysAgo);
+  return date.getTime();
+};
+
+// Daily request budgets keyed by masked key
+const loadUsageBudgets = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(USAGE_BUDGETS_STORAGE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+const saveUsageBudgets = (budgets: Record<string, number>) => {
+  localStorage.setItem(USAGE_BUDGETS_STORAGE_KEY, JSON.stringify(budgets));
+};
+
+interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videoSeconds: number;
+  errors: number;
+}
+
+const aggregateUsage = (records: UsageRecord[], groupBy: 'key' | 'model') => {
+  const totals = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const row = totals.get(record[groupBy]) || { requests: 0, inputTokens: 0, outputTokens: 0, images: 0, videoSeconds: 0, errors: 0 };
+    if (!record.followUp) row.requests++;
+    row.inputTokens += record.inputTokens;
+    row.outputTokens += record.outputTokens;
+    row.images += record.images;
+    row.videoSeconds += record.videoSeconds;
+    if (record.error && record.error !== 'cancelled') row.errors++;
+    totals.set(record[groupBy], row);
+  }
+  return totals;
+};
+
+// --- Request Scheduler ---
+
+// Every Gemini request goes through one queue so features stop racing each other
+// into 429s. The queue caps concurrent requests, keeps each model under its
+// requests-per-minute budget and lets interactive work jump ahead of background polling.
+type RequestPriority = 'interactive' | 'normal' | 'background';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { interactive: 0, normal: 1, background: 2 };
+const MAX_CONCURRENT_REQUESTS = 3;
+const DEFAULT_MODEL_RPM = 15;
+const MODEL_RPM_LIMITS: Record<string, number> = {
+  'gemini-2.5-flash': 10,
+  'gemini-2.5-flash-image': 10,
+  'gemini-3-pro-image-preview': 5,
+  'gemini-2.5-flash-preview-tts': 3,
+  'veo-3.1-fast-generate-preview': 2,
+  // Veo long-running operation status checks
+  'operations': 30,
+};
+
+interface ScheduledRequest {
+  id: number;
+  label: string;
+  model: string;
+  feature: UsageFeature;
+  priority: RequestPriority;
+  state: 'queued' | 'running';
+  enqueuedAt: number;
+  startedAt?: number;
+}
+
+interface SchedulerEntry extends ScheduledRequest {
+  apiKey: string;
+  start: () => void;
+}
+
+const schedulerEntries: SchedulerEntry[] = [];
+const modelRequestLog = new Map<string, number[]>();
+const schedulerListeners = new Set<() => void>();
+let schedulerSnapshot: ScheduledRequest[] = [];
+let schedulerTimer: ReturnType<typeof setTimeout> | null = null;
+let nextScheduledRequestId = 1;
+
+const subscribeScheduler = (listener: () => void) => {
+  schedulerListeners.add(listener);
+  return () => { schedulerListeners.delete(listener); };
+};
+
+const getSchedulerSnapshot = () => schedulerSnapshot;
+
+const notifySchedulerListeners = () => {
+  schedulerSnapshot = schedulerEntries.map(({ start, apiKey, ...info }) => ({ ...info }));
+  schedulerListeners.forEach(listener => listener());
+};
+
+// Earliest time a new request for `model` fits in its sliding one-minute window
+const getModelBudgetAvailableAt = (model: string, now = Date.now()) => {
+  const limit = MODEL_RPM_LIMITS[model] ?? DEFAULT_MODEL_RPM;
+  const log = (modelRequestLog.get(model) || []).filter(t => now - t < 60000);
+  modelRequestLog.set(model, log);
+  return log.length < limit ? now : log[log.length - limit] + 60000;
+};
+
+const pumpScheduler = () => {
+  if (schedulerTimer) {
+    clearTimeout(schedulerTimer);
+    schedulerTimer = null;
+  }
+
+  const now = Date.now();
+  let running = schedulerEntries.filter(e => e.state === 'running').length;
+  let nextCheckAt = Infinity;
+
+  const queued = schedulerEntries
+    .filter(e => e.state === 'queued')
+    .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.enqueuedAt - b.enqueuedAt);
+
+  for (const entry of queued) {
+    if (running >= MAX_CONCURRENT_REQUESTS) break;
+    // A model out of budget should not hold up requests for other models
+    const availableAt = getModelBudgetAvailableAt(entry.model, now);
+    if (availableAt > now) {
+      nextCheckAt = Math.min(nextCheckAt, availableAt);
+      continue;
+    }
+    modelRequestLog.get(entry.model)!.push(now);
+    entry.state = 'running';
+    entry.startedAt = now;
+    running++;
+    entry.start();
+  }
+
+  if (nextCheckAt !== Infinity) {
+    schedulerTimer = setTimeout(pumpScheduler, nextCheckAt - now + 50);
+  }
+  notifySchedulerListeners();
+};
+
+// `followUpOf` marks a status check on an earlier request to that model. Only a
+// finished result is logged, under that model, as a follow-up record.
+const scheduleGeminiRequest = <T,>(
+  request: { model: string; label: string; feature: UsageFeature; priority: RequestPriority; apiKey: string; signal?: AbortSignal; followUpOf?: string },
+  run: () => Promise<T>
+): Promise<T> => {
+  const { signal, followUpOf, ...info } = request;
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError('Cancelled'));
+      return;
+    }
+    const record = (usage: ReturnType<typeof summarizeUsage> | null, error: GeminiErrorKind | null) => {
+      if (followUpOf && !(usage && usage.videoSeconds > 0)) return;
+      recordUsage({
+        timestamp: Date.now(),
+        key: maskApiKey(request.apiKey),
+        model: followUpOf ?? request.model,
+        feature: request.feature,
+        inputTokens: usage?.inputTokens || 0,
+        outputTokens: usage?.outputTokens || 0,
+        images: usage?.images || 0,
+        videoSeconds: usage?.videoSeconds || 0,
+        error,
+        followUp: followUpOf !== undefined,
+      });
+    };
+    const entry: SchedulerEntry = {
+      ...info,
+      id: nextScheduledRequestId++,
+      state: 'queued',
+      enqueuedAt: Date.now(),
+      start: () => {
+        Promise.resolve().then(run).then(
+          result => {
+            markKeyOutcome(request.apiKey, null);
+            record(summarizeUsage(result), null);
+            resolve(result);
+          },
+          error => {
+            const classified = classifyGeminiError(error);
+            markKeyOutcome(request.apiKey, classified);
+            record(null, classified.kind);
+            reject(error);
+          }
+        ).finally(() => {
+          signal?.removeEventListener('abort', onAbort);
+          schedulerEntries.splice(schedulerEntries.indexOf(entry), 1);
+          pumpScheduler();
+        });
+      },
+    };
+    // Requests cancelled while still queued never reach the API. Running ones
+    // are cancelled by the SDK call itself through the same signal.
+    const onAbort = () => {
+      if (entry.state !== 'queued') return;
+      schedulerEntries.splice(schedulerEntries.indexOf(entry), 1);
+      reject(new CancelledError('Cancelled'));
+      pumpScheduler();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    schedulerEntries.push(entry);
+    pumpScheduler();
+  });
+};
 
-// Global rate limit tracker to prevent hammering when API is overloaded
-let globalRateLimitCooldownUntil = 0;
-let consecutiveRateLimitErrors = 0; // Track consecutive 429s to ramp up global backoff
+// --- Utility Functions ---
 
 async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
+  fn: (apiKey: string) => Promise<T>,
   retries = 5,
   initialDelay = 2000, 
-  onRetry?: (attempt: number, delay: number, error: any) => void
+  onRetry?: (attempt: number, delay: number, error: any) => void,
+  pickKey: () => string | undefined = () => process.env.API_KEY,
+  signal?: AbortSignal,
+  // Streaming callers return false once part of the result has been shown
+  canRetry: () => boolean = () => true
 ): Promise<T> {
   let attempt = 0;
   let delay = initialDelay;
+  let lastError: GeminiError | null = null;
+  let apiKey = pickKey();
 
   while (true) {
-    // 1. Check Global Cooldown
+    throwIfCancelled(signal);
+    if (!apiKey) throw new Error("No API Key available");
+
+    // 1. Skip straight to the caller's fallback if even the best key is out of quota
+    if (isKeyQuotaExhausted(apiKey)) {
+       throw lastError || new QuotaExhaustedError(`Quota exceeded: ${getKeyHealth(apiKey).lastError || 'key exhausted'}`);
+    }
+
+    // 2. Respect this key's cooldown. Selection prefers healthy keys, so this only
+    // waits when every key is cooling down.
     const now = Date.now();
-    if (now < globalRateLimitCooldownUntil) {
-       // If globally cooled down, wait the remaining time plus a bit of jitter
-       const waitTime = globalRateLimitCooldownUntil - now + (Math.random() * 1000);
+    const availableAt = getKeyAvailableAt(apiKey);
+    if (now < availableAt) {
+       const waitTime = Math.min(availableAt - now, 60000) + (Math.random() * 1000);
        // Only notify callback if the wait is significant (> 2s) to avoid UI spam
        if (waitTime > 2000 && onRetry) {
-           onRetry(attempt, waitTime, { message: 'Global system cooldown active' }); 
+           onRetry(attempt, waitTime, { message: 'API key cooldown active' }); 
        }
-       await new Promise(resolve => setTimeout(resolve, waitTime));
+       await abortableDelay(waitTime, signal);
     }
 
     try {
-      const result = await fn();
-      // Success: Decay consecutive error count to slowly recover trust in the API stability
-      if (consecutiveRateLimitErrors > 0) {
-          consecutiveRateLimitErrors = Math.max(0, consecutiveRateLimitErrors - 1);
-      }
-      return result;
-    } catch (error: any) {
+      return await fn(apiKey);
+    } catch (rawError: any) {
       attempt++;
       
-      const msg = error.message || '';
-      const status = error.status || error.code || error.response?.status;
-      
-      // 2. Analyze Error Type
-      const isQuotaExceeded = 
-        msg.includes('Quota exceeded') || 
-        msg.includes('quota') ||
-        status === 402;
-
-      // If quota exceeded, fail immediately so we can fallback.
-      if (isQuotaExceeded) {
-          globalRateLimitCooldownUntil = Date.now() + (60000 * 5); // 5 minute cooldown
-          throw error;
+      // 3. Analyze Error Type
+      const error = classifyGeminiError(rawError);
+      if (error instanceof CancelledError || !canRetry()) throw error;
+      lastError = error;
+      // Server-provided retry delay, with a 2s buffer
+      const retryAfterMs = error.retryAfterMs !== undefined ? error.retryAfterMs + 2000 : undefined;
+
+      // The scheduler has already recorded the outcome on the key's health.
+      // Quota exhausted: move on to the next key. If no healthy key is left,
+      // step 1 rethrows so the caller can fall back.
+      if (error instanceof QuotaExhaustedError) {
+          if (attempt > retries) throw error;
+          apiKey = pickKey();
+          continue;
       }
 
-      const isRateLimit = 
-        status === 429 || 
-        /429|Too Many Requests|Resource has been exhausted|exhausted/i.test(msg);
-        
-      const isServiceUnavailable = 
-        status === 503 || 
-        /503|Service Unavailable|Overloaded/i.test(msg);
-
       const shouldRetry = 
         retries > 0 && 
         attempt <= retries && 
-        (isRateLimit || isServiceUnavailable);
+        isRetryableGeminiError(error);
 
-      if (shouldRetry) {
-        // 3. Intelligent Backoff & Global Lock
-        
-        // If we hit a rate limit, increase global pressure counter
-        if (isRateLimit) {
-            consecutiveRateLimitErrors++;
-            const penalty = Math.min(3000 * Math.pow(1.5, consecutiveRateLimitErrors), 45000);
-            globalRateLimitCooldownUntil = Date.now() + penalty;
-        }
+      if (!shouldRetry) throw error;
 
-        // Determine wait time for THIS specific retry
-        let waitTime = delay * Math.pow(2, attempt - 1);
-        
-        // Try to parse "retry after X seconds"
-        const match = msg.match(/after (\d+)s/i) || msg.match(/in (\d+)s/i);
-        if (match && match[1]) {
-           waitTime = parseInt(match[1], 10) * 1000 + 2000; // Add 2s buffer
-        }
-        
-        // Add random jitter to prevent thundering herd
-        const jitter = Math.random() * 1000;
-        waitTime = waitTime + jitter;
-        
-        // Cap max wait time per retry loop to 60s
-        waitTime = Math.min(waitTime, 60000);
-        
-        if (onRetry) onRetry(attempt, waitTime, error);
-        
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        continue;
+      // 4. Intelligent Backoff
+      let waitTime: number;
+      if (error instanceof RateLimitedError) {
+          // Only the throttled key cools down, so rotate. If another key is
+          // healthy we retry on it right away.
+          apiKey = pickKey();
+          waitTime = apiKey ? Math.max(getKeyAvailableAt(apiKey) - Date.now(), 0) : 0;
+      } else {
+          // The service or network is struggling; back off regardless of key
+          waitTime = retryAfterMs ?? delay * Math.pow(2, attempt - 1);
+          apiKey = pickKey();
       }
-      throw error;
+      
+      // Add random jitter to prevent thundering herd
+      const jitter = Math.random() * 1000;
+      waitTime = waitTime + jitter;
+      
+      // Cap max wait time per retry loop to 60s
+      waitTime = Math.min(waitTime, 60000);
+      
+      if (onRetry) onRetry(attempt, waitTime, error);
+      
+      await abortableDelay(waitTime, signal);
     }
   }
 }
@@ -177,218 +859,1905 @@ function createBlob(data: Float32Array): GeminiInlineData {
   }
   return {
     data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`,
   };
 }
 
-// --- Image Processing Utility ---
+// --- Audio Capture Worklet ---
+
+// The Live API expects 16 kHz PCM, but most devices capture at 44.1/48 kHz.
+// The worklet low-passes and resamples on the audio thread and posts small frames together
+// with their RMS, zero-crossing rate and speech-band energy ratio so VAD never
+// blocks the UI.
+const CAPTURE_SAMPLE_RATE = 16000;
+const CAPTURE_FRAME_SIZE = 640; // 40 ms at 16 kHz
+const CAPTURE_FRAME_MS = (CAPTURE_FRAME_SIZE / CAPTURE_SAMPLE_RATE) * 1000;
+const CAPTURE_PROCESSOR_NAME = 'pcm-capture';
+
+const CAPTURE_WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSize } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.frame = new Float32Array(frameSize);
+    this.frameLength = 0;
+    // Fractional read position relative to the current block; -1 refers to
+    // the last sample of the previous block.
+    this.position = 0;
+    this.previous = 0;
+    // Interpolation alone lets everything above 8 kHz fold back into the band, so a
+    // 6th-order Butterworth low-pass (three biquads) runs first when downsampling.
+    this.antiAlias = this.ratio > 1
+      ? [0.5176, 0.7071, 1.9319].map((q) => PcmCaptureProcessor.lowPass(targetSampleRate * 0.45, q))
+      : [];
+    this.filtered = new Float32Array(128);
+    // One-pole 300 Hz high-pass and 3.4 kHz low-pass isolate the speech band.
+    const dt = 1 / targetSampleRate;
+    const highPassRc = 1 / (2 * Math.PI * 300);
+    const lowPassRc = 1 / (2 * Math.PI * 3400);
+    this.highPassAlpha = highPassRc / (highPassRc + dt);
+    this.lowPassAlpha = dt / (lowPassRc + dt);
+    this.highPassIn = 0;
+    this.highPassOut = 0;
+    this.lowPassOut = 0;
+  }
 
-const processImage = async (
-  base64Data: string, 
-  type: 'rotate' | 'filter' | 'crop' | 'watermark', 
-  param: number | string
-): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        img.crossOrigin = "anonymous";
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d');
-            if (!ctx) { reject('No context'); return; }
+  // RBJ cookbook low-pass coefficients at the device rate.
+  static lowPass(cutoff, q) {
+    const w0 = (2 * Math.PI * cutoff) / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+    const a0 = 1 + alpha;
+    return {
+      b0: (1 - cos) / 2 / a0, b1: (1 - cos) / a0, b2: (1 - cos) / 2 / a0,
+      a1: (-2 * cos) / a0, a2: (1 - alpha) / a0,
+      x1: 0, x2: 0, y1: 0, y2: 0,
+    };
+  }
 
-            if (type === 'watermark') {
-                canvas.width = img.width;
-                canvas.height = img.height;
-                ctx.drawImage(img, 0, 0);
-                
-                const wmImg = new Image();
-                wmImg.crossOrigin = "anonymous";
-                wmImg.onload = () => {
-                    const minDim = Math.min(canvas.width, canvas.height);
-                    let wmWidth = minDim * 0.2; 
-                    wmWidth = Math.max(wmWidth, 80);
-                    if (wmWidth > minDim * 0.5) wmWidth = minDim * 0.5;
+  filter(input) {
+    if (this.filtered.length < input.length) this.filtered = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      let x = input[i];
+      for (const f of this.antiAlias) {
+        const y = f.b0 * x + f.b1 * f.x1 + f.b2 * f.x2 - f.a1 * f.y1 - f.a2 * f.y2;
+        f.x2 = f.x1;
+        f.x1 = x;
+        f.y2 = f.y1;
+        f.y1 = y;
+        x = y;
+      }
+      this.filtered[i] = x;
+    }
+    return this.filtered;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input || input.length === 0) return true;
+
+    const length = input.length;
+    const source = this.antiAlias.length > 0 ? this.filter(input) : input;
+    let position = this.position;
+    while (position <= length - 1) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const a = index < 0 ? this.previous : source[index];
+      const b = index + 1 < length ? source[index + 1] : a;
+      this.frame[this.frameLength++] = a + (b - a) * fraction;
+      if (this.frameLength === this.frame.length) this.flush();
+      position += this.ratio;
+    }
+    this.position = position - length;
+    this.previous = source[length - 1];
+    return true;
+  }
+
+  flush() {
+    const samples = this.frame.slice(0, this.frameLength);
+    this.frameLength = 0;
+
+    let sumOfSquares = 0;
+    let bandSumOfSquares = 0;
+    let zeroCrossings = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const sample = samples[i];
+      sumOfSquares += sample * sample;
+      if (i > 0 && Math.sign(sample) !== Math.sign(samples[i - 1])) {
+        zeroCrossings++;
+      }
+      this.highPassOut = this.highPassAlpha * (this.highPassOut + sample - this.highPassIn);
+      this.highPassIn = sample;
+      this.lowPassOut += this.lowPassAlpha * (this.highPassOut - this.lowPassOut);
+      bandSumOfSquares += this.lowPassOut * this.lowPassOut;
+    }
+
+    this.port.postMessage(
+      {
+        samples,
+        rms: Math.sqrt(sumOfSquares / samples.length),
+        zcr: zeroCrossings / samples.length,
+        speechBand: sumOfSquares > 0 ? bandSumOfSquares / sumOfSquares : 0,
+      },
+      [samples.buffer],
+    );
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+interface CaptureFrame {
+  samples: Float32Array;
+  rms: number;
+  zcr: number;
+  // Share of the frame's energy between 300 Hz and 3.4 kHz.
+  speechBand: number;
+}
+
+// Worklet sources are inlined, so each one is turned into a blob URL once.
+const workletModuleUrls = new Map<string, string>();
+
+async function loadWorkletModule(ctx: AudioContext, name: string, source: string): Promise<void> {
+  if (!ctx.audioWorklet) {
+    throw new Error('Live audio requires AudioWorklet support (HTTPS and a modern browser).');
+  }
+  let url = workletModuleUrls.get(name);
+  if (!url) {
+    url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+    workletModuleUrls.set(name, url);
+  }
+  await ctx.audioWorklet.addModule(url);
+}
+
+async function createCaptureNode(
+  ctx: AudioContext,
+  targetSampleRate: number = CAPTURE_SAMPLE_RATE,
+): Promise<AudioWorkletNode> {
+  await loadWorkletModule(ctx, CAPTURE_PROCESSOR_NAME, CAPTURE_WORKLET_SOURCE);
+  return new AudioWorkletNode(ctx, CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: {
+      targetSampleRate,
+      frameSize: CAPTURE_FRAME_SIZE,
+    },
+  });
+}
+
+// --- Microphone Processing ---
+
+// Browser-side processing (echo cancellation, noise suppression, AGC) is set via
+// getUserMedia constraints. The optional client-side stages run in the input
+// graph after the gain stage, so the VAD, visualizer and capture all see the
+// processed signal.
+interface MicProcessingSettings {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  highPass: boolean;
+  noiseGate: boolean;
+}
+
+const MIC_PROCESSING_STORAGE_KEY = 'mic_processing_settings';
+const DEFAULT_MIC_PROCESSING: MicProcessingSettings = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  highPass: false,
+  noiseGate: false,
+};
+const MIC_HIGH_PASS_HZ = 100;
+const NOISE_GATE_PROCESSOR_NAME = 'noise-gate';
+const NOISE_GATE_THRESHOLD_DB = -50;
+
+function loadMicProcessingSettings(): MicProcessingSettings {
+  try {
+    return { ...DEFAULT_MIC_PROCESSING, ...JSON.parse(localStorage.getItem(MIC_PROCESSING_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_MIC_PROCESSING;
+  }
+}
+
+// `raw` turns every browser stage off, for A/B comparison.
+function micConstraints(deviceId: string, settings: MicProcessingSettings, raw = false): MediaTrackConstraints {
+  return {
+    deviceId: deviceId === 'default' ? undefined : { exact: deviceId },
+    ...browserProcessingConstraints(settings, raw),
+  };
+}
+
+function browserProcessingConstraints(settings: MicProcessingSettings, raw = false): MediaTrackConstraints {
+  return {
+    echoCancellation: !raw && settings.echoCancellation,
+    noiseSuppression: !raw && settings.noiseSuppression,
+    autoGainControl: !raw && settings.autoGainControl,
+  };
+}
+
+// Peak envelope with a short hold so word endings are not clipped; the gain
+// opens fast and closes slowly to avoid clicks.
+const NOISE_GATE_WORKLET_SOURCE = `
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { thresholdDb } = options.processorOptions;
+    this.threshold = Math.pow(10, thresholdDb / 20);
+    this.envelopeDecay = Math.exp(-1 / (0.01 * sampleRate));
+    this.attack = 1 - Math.exp(-1 / (0.005 * sampleRate));
+    this.release = 1 - Math.exp(-1 / (0.08 * sampleRate));
+    this.holdSamples = Math.round(0.2 * sampleRate);
+    this.envelope = 0;
+    this.hold = 0;
+    this.gain = 0;
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0] && inputs[0][0];
+    const output = outputs[0] && outputs[0][0];
+    if (!input || !output) return true;
+    for (let i = 0; i < input.length; i++) {
+      this.envelope = Math.max(Math.abs(input[i]), this.envelope * this.envelopeDecay);
+      if (this.envelope > this.threshold) this.hold = this.holdSamples;
+      else if (this.hold > 0) this.hold--;
+      const target = this.hold > 0 ? 1 : 0;
+      this.gain += (target - this.gain) * (target > this.gain ? this.attack : this.release);
+      output[i] = input[i] * this.gain;
+    }
+    return true;
+  }
+}
+registerProcessor('${NOISE_GATE_PROCESSOR_NAME}', NoiseGateProcessor);
+`;
+
+interface MicProcessingChain {
+  input: AudioNode;
+  output: AudioNode;
+  // Routes around the client-side stages without rebuilding the graph.
+  setBypassed(bypassed: boolean): void;
+  disconnect(): void;
+}
+
+async function createMicProcessingChain(ctx: AudioContext, settings: MicProcessingSettings): Promise<MicProcessingChain> {
+  const input = ctx.createGain();
+  const output = ctx.createGain();
+  const stages: AudioNode[] = [];
+
+  if (settings.highPass) {
+    const highPass = ctx.createBiquadFilter();
+    highPass.type = 'highpass';
+    highPass.frequency.value = MIC_HIGH_PASS_HZ;
+    stages.push(highPass);
+  }
+  if (settings.noiseGate) {
+    await loadWorkletModule(ctx, NOISE_GATE_PROCESSOR_NAME, NOISE_GATE_WORKLET_SOURCE);
+    stages.push(new AudioWorkletNode(ctx, NOISE_GATE_PROCESSOR_NAME, {
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      outputChannelCount: [1],
+      processorOptions: { thresholdDb: NOISE_GATE_THRESHOLD_DB },
+    }));
+  }
+  stages.reduce<AudioNode>((prev, stage) => {
+    prev.connect(stage);
+    return stage;
+  }, input);
+
+  const route = (bypassed: boolean) => {
+    const last = stages[stages.length - 1];
+    input.disconnect();
+    last?.disconnect();
+    if (bypassed || !last) {
+      input.connect(output);
+    } else {
+      input.connect(stages[0]);
+      last.connect(output);
+    }
+  };
+  route(false);
+
+  return {
+    input,
+    output,
+    setBypassed: route,
+    disconnect: () => {
+      input.disconnect();
+      stages.forEach((stage) => stage.disconnect());
+      output.disconnect();
+    },
+  };
+}
+
+// --- Live Playback Engine ---
+
+// Model audio is played by a worklet instead of back-to-back buffer sources. It
+// holds a jitter buffer before starting a turn, changes speed with WSOLA
+// (overlap-add of Hann-windowed frames aligned by cross-correlation) so pitch is
+// kept, and fades out on underrun rather than clicking. Messages:
+//   push { samples }  queue model audio at the context rate
+//   flush             turn is complete; play what is left without waiting
+//   clear             drop everything not yet played (barge-in)
+//   config { rate, jitterMs }
+// It posts { type: 'started' } whenever playback begins after silence, and
+// { type: 'cleared', dropped } with the number of unplayed samples discarded.
+const PLAYBACK_SAMPLE_RATE = 24000;
+const PLAYBACK_PROCESSOR_NAME = 'pcm-playback';
+const PLAYBACK_FRAME_SIZE = 480; // 20 ms at 24 kHz
+const PLAYBACK_SEEK_TOLERANCE = 120;
+const PLAYBACK_RATE_MIN = 0.75;
+const PLAYBACK_RATE_MAX = 1.5;
+
+const PLAYBACK_WORKLET_SOURCE = `
+const FRAME = ${PLAYBACK_FRAME_SIZE};
+const HOP = FRAME / 2;
+const TOLERANCE = ${PLAYBACK_SEEK_TOLERANCE};
+
+class PcmPlaybackProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { rate, jitterMs } = options.processorOptions;
+    this.rate = rate;
+    this.jitterSamples = Math.round((jitterMs / 1000) * sampleRate);
+    this.window = new Float32Array(FRAME);
+    for (let i = 0; i < FRAME; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME);
+    }
+    this.input = new Float32Array(0);
+    this.position = 0; // nominal analysis position in this.input
+    this.natural = -1; // input position that seamlessly continues the last frame, -1 after a gap
+    this.overlap = new Float32Array(FRAME);
+    this.hop = new Float32Array(HOP);
+    this.hopRead = HOP;
+    this.playing = false;
+    this.flushed = false;
+    this.port.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  handleMessage(message) {
+    if (message.type === 'push') {
+      const merged = new Float32Array(this.input.length + message.samples.length);
+      merged.set(this.input);
+      merged.set(message.samples, this.input.length);
+      this.input = merged;
+    } else if (message.type === 'flush') {
+      this.flushed = true;
+    } else if (message.type === 'clear') {
+      const dropped = Math.max(0, this.input.length - Math.round(this.position));
+      this.port.postMessage({ type: 'cleared', dropped });
+      this.input = new Float32Array(0);
+      this.position = 0;
+      this.natural = -1;
+      this.overlap.fill(0);
+      this.playing = false;
+      this.flushed = false;
+    } else if (message.type === 'config') {
+      this.rate = message.rate;
+      this.jitterSamples = Math.round((message.jitterMs / 1000) * sampleRate);
+    }
+  }
+
+  sample(index) {
+    return index >= 0 && index < this.input.length ? this.input[index] : 0;
+  }
+
+  emitTail() {
+    // The second half of the last frame is already windowed down, so it doubles as a fade-out.
+    this.hop.set(this.overlap.subarray(0, HOP));
+    this.hopRead = 0;
+    this.overlap.fill(0);
+    this.natural = -1;
+    this.playing = false;
+  }
+
+  synthesize() {
+    const available = this.input.length - this.position;
+    if (!this.playing) {
+      if (available <= 0 || (available < this.jitterSamples && !this.flushed)) return false;
+      this.playing = true;
+      this.port.postMessage({ type: 'started' });
+    }
+
+    if (available <= 0) {
+      this.emitTail();
+      this.flushed = false;
+      return true;
+    }
+    if (!this.flushed && this.position + TOLERANCE + FRAME > this.input.length) {
+      this.emitTail();
+      return true;
+    }
+
+    const nominal = Math.round(this.position);
+    let start = nominal;
+    if (this.natural >= 0 && this.natural !== nominal) {
+      let bestScore = -Infinity;
+      for (let offset = -TOLERANCE; offset <= TOLERANCE; offset++) {
+        const candidate = nominal + offset;
+        if (candidate < 0) continue;
+        let correlation = 0;
+        let energy = 1e-9;
+        for (let i = 0; i < HOP; i += 2) {
+          const value = this.sample(candidate + i);
+          correlation += this.sample(this.natural + i) * value;
+          energy += value * value;
+        }
+        const score = correlation / Math.sqrt(energy);
+        if (score > bestScore) {
+          bestScore = score;
+          start = candidate;
+        }
+      }
+    }
+
+    for (let i = 0; i < FRAME; i++) {
+      this.overlap[i] += this.window[i] * this.sample(start + i);
+    }
+    this.hop.set(this.overlap.subarray(0, HOP));
+    this.hopRead = 0;
+    this.overlap.copyWithin(0, HOP);
+    this.overlap.fill(0, HOP);
+    this.natural = start + HOP;
+    this.position += HOP * this.rate;
+    this.compact();
+    return true;
+  }
+
+  compact() {
+    const keepFrom = Math.floor(Math.min(this.position - TOLERANCE, this.natural));
+    if (keepFrom < 8192) return;
+    this.input = this.input.slice(keepFrom);
+    this.position -= keepFrom;
+    this.natural -= keepFrom;
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0][0];
+    for (let i = 0; i < output.length; i++) {
+      if (this.hopRead >= HOP && !this.synthesize()) {
+        output.fill(0, i);
+        break;
+      }
+      output[i] = this.hop[this.hopRead++];
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PLAYBACK_PROCESSOR_NAME}', PcmPlaybackProcessor);
+`;
+
+interface PlaybackSettings {
+  rate: number;
+  volume: number;
+  jitterMs: number;
+}
+
+const PLAYBACK_SETTINGS_STORAGE_KEY = 'live_playback_settings';
+const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = { rate: 1, volume: 1, jitterMs: 200 };
+
+function loadPlaybackSettings(): PlaybackSettings {
+  try {
+    return { ...DEFAULT_PLAYBACK_SETTINGS, ...JSON.parse(localStorage.getItem(PLAYBACK_SETTINGS_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_PLAYBACK_SETTINGS;
+  }
+}
+
+async function createPlaybackNode(ctx: AudioContext, settings: PlaybackSettings): Promise<AudioWorkletNode> {
+  await loadWorkletModule(ctx, PLAYBACK_PROCESSOR_NAME, PLAYBACK_WORKLET_SOURCE);
+  return new AudioWorkletNode(ctx, PLAYBACK_PROCESSOR_NAME, {
+    numberOfInputs: 0,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    processorOptions: { rate: settings.rate, jitterMs: settings.jitterMs },
+  });
+}
+
+function pcm16ToFloat32(bytes: Uint8Array): Float32Array {
+  const int16 = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+  const samples = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) {
+    samples[i] = int16[i] / 32768.0;
+  }
+  return samples;
+}
+
+// --- Visual Input ---
+
+// Camera or screen frames are sent to the Live session as throttled JPEG stills,
+// which is enough for the model to read homework, documents or a whiteboard.
+type VisualSource = 'camera' | 'screen';
+type CameraFacing = 'user' | 'environment';
+
+const VIDEO_FRAME_INTERVAL_MS = 1000;
+const VIDEO_FRAME_MAX_DIMENSION = 768;
+const VIDEO_FRAME_JPEG_QUALITY = 0.7;
+
+function captureVideoFrame(video: HTMLVideoElement, canvas: HTMLCanvasElement): GeminiInlineData | null {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return null;
+  const scale = Math.min(1, VIDEO_FRAME_MAX_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/jpeg', VIDEO_FRAME_JPEG_QUALITY);
+  return { mimeType: 'image/jpeg', data: dataUrl.split(',')[1] };
+}
+
+// Images typed into a Live session get the same size limit as video frames.
+async function imageFileToLiveFrame(file: File): Promise<GeminiInlineData> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, VIDEO_FRAME_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const dataUrl = canvas.toDataURL('image/jpeg', VIDEO_FRAME_JPEG_QUALITY);
+  return { mimeType: 'image/jpeg', data: dataUrl.split(',')[1] };
+}
+
+// --- Session Recording ---
+
+// Live sessions can be recorded as a mono 24 kHz WAV. Mic and model audio are
+// mixed in the output context, and turn changes are written as cue points with
+// labels so editors like Audacity show them as markers.
+const RECORDING_SAMPLE_RATE = 24000;
+
+interface RecordingMarker {
+  seconds: number;
+  label: string;
+}
+
+interface SessionRecording {
+  url: string;
+  fileName: string;
+  durationSeconds: number;
+  markers: RecordingMarker[];
+}
+
+function formatClock(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function floatToInt16(samples: Float32Array): Int16Array {
+  const int16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return int16;
+}
+
+function encodeWavWithMarkers(
+  chunks: Int16Array[],
+  sampleRate: number,
+  markers: RecordingMarker[],
+): Blob {
+  const sampleCount = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const encoder = new TextEncoder();
+  const labels = markers.map((m) => encoder.encode(`${m.label}\0`));
+  const labelChunkSizes = labels.map((l) => 8 + 4 + l.length + (l.length % 2));
+
+  const fmtSize = 8 + 16;
+  const cueSize = markers.length ? 8 + 4 + markers.length * 24 : 0;
+  const listSize = markers.length ? 8 + 4 + labelChunkSizes.reduce((a, b) => a + b, 0) : 0;
+  const dataSize = 8 + sampleCount * 2;
+  const header = new DataView(new ArrayBuffer(12 + fmtSize + cueSize + listSize + 8));
+  let offset = 0;
+  const writeTag = (tag: string) => {
+    for (let i = 0; i < 4; i++) header.setUint8(offset++, tag.charCodeAt(i));
+  };
+  const writeUint32 = (value: number) => {
+    header.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const writeUint16 = (value: number) => {
+    header.setUint16(offset, value, true);
+    offset += 2;
+  };
+
+  writeTag('RIFF');
+  writeUint32(4 + fmtSize + cueSize + listSize + dataSize);
+  writeTag('WAVE');
+
+  writeTag('fmt ');
+  writeUint32(16);
+  writeUint16(1); // PCM
+  writeUint16(1); // mono
+  writeUint32(sampleRate);
+  writeUint32(sampleRate * 2);
+  writeUint16(2);
+  writeUint16(16);
+
+  if (markers.length) {
+    writeTag('cue ');
+    writeUint32(cueSize - 8);
+    writeUint32(markers.length);
+    markers.forEach((marker, i) => {
+      const position = Math.min(sampleCount, Math.max(0, Math.round(marker.seconds * sampleRate)));
+      writeUint32(i + 1);
+      writeUint32(position);
+      writeTag('data');
+      writeUint32(0);
+      writeUint32(0);
+      writeUint32(position);
+    });
+
+    writeTag('LIST');
+    writeUint32(listSize - 8);
+    writeTag('adtl');
+    labels.forEach((label, i) => {
+      writeTag('labl');
+      writeUint32(4 + label.length);
+      writeUint32(i + 1);
+      label.forEach((byte) => header.setUint8(offset++, byte));
+      if (label.length % 2) header.setUint8(offset++, 0);
+    });
+  }
+
+  writeTag('data');
+  writeUint32(sampleCount * 2);
+
+  return new Blob([header.buffer, ...chunks.map((chunk) => chunk.buffer as ArrayBuffer)], { type: 'audio/wav' });
+}
+
+// Per-turn clips in the chat history are plain WAVs; the user side is capped so
+// an open mic in hands-free mode cannot grow a clip without bound.
+const LIVE_CLIP_MAX_SECONDS = 60;
+
+function createClipUrl(chunks: Int16Array[], sampleRate: number): string | undefined {
+  if (chunks.length === 0) return undefined;
+  return URL.createObjectURL(encodeWavWithMarkers(chunks, sampleRate, []));
+}
+
+// --- Encrypted Key Vault ---
+
+// Optional passphrase protection for the key vault. Keys are encrypted with
+// AES-GCM under a PBKDF2-derived key; only the non-extractable CryptoKey is kept
+// in memory while the vault is unlocked.
+const PLAINTEXT_KEYS_STORAGE_KEY = 'custom_api_keys';
+const ENCRYPTED_KEYS_STORAGE_KEY = 'encrypted_api_keys';
+const VAULT_PBKDF2_ITERATIONS = 310000;
+const VAULT_AUTO_LOCK_MS = 15 * 60000;
+const VAULT_MIN_PASSPHRASE_LENGTH = 8;
+
+type VaultStatus = 'plaintext' | 'locked' | 'unlocked';
+
+interface EncryptedVault {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+interface VaultSession {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+const deriveVaultKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const createVaultSession = async (passphrase: string): Promise<VaultSession> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveVaultKey(passphrase, salt, VAULT_PBKDF2_ITERATIONS);
+  return { key, salt, iterations: VAULT_PBKDF2_ITERATIONS };
+};
+
+const encryptVault = async (keys: string[], session: VaultSession): Promise<EncryptedVault> => {
+  // Fresh IV on every write; reusing one with the same key breaks AES-GCM
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv }, session.key, new TextEncoder().encode(JSON.stringify(keys))
+  );
+  return {
+    version: 1,
+    iterations: session.iterations,
+    salt: encode(session.salt),
+    iv: encode(iv),
+    data: encode(new Uint8Array(data)),
+  };
+};
+
+const unlockVault = async (vault: EncryptedVault, passphrase: string): Promise<{ keys: string[]; session: VaultSession }> => {
+  const salt = decode(vault.salt);
+  const key = await deriveVaultKey(passphrase, salt, vault.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: decode(vault.iv) }, key, decode(vault.data));
+  } catch (e) {
+    // AES-GCM authentication fails on a wrong passphrase
+    throw new Error('Incorrect passphrase');
+  }
+  return {
+    keys: JSON.parse(new TextDecoder().decode(plaintext)),
+    session: { key, salt, iterations: vault.iterations },
+  };
+};
+
+const loadEncryptedVault = (): EncryptedVault | null => {
+  const stored = localStorage.getItem(ENCRYPTED_KEYS_STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error("Failed to parse encrypted API key vault", e);
+    return null;
+  }
+};
+
+const loadPlaintextKeys = (): string[] => {
+  const stored = localStorage.getItem(PLAINTEXT_KEYS_STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error("Failed to parse API keys", e);
+    return [];
+  }
+};
+
+// --- Image Processing Utility ---
+
+const processImage = async (
+  base64Data: string, 
+  type: 'rotate' | 'filter' | 'crop' | 'watermark', 
+  param: number | string
+): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = "anonymous";
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            const ctx = canvas.getContext('2d');
+            if (!ctx) { reject('No context'); return; }
+
+            if (type === 'watermark') {
+                canvas.width = img.width;
+                canvas.height = img.height;
+                ctx.drawImage(img, 0, 0);
+                
+                const wmImg = new Image();
+                wmImg.crossOrigin = "anonymous";
+                wmImg.onload = () => {
+                    const minDim = Math.min(canvas.width, canvas.height);
+                    let wmWidth = minDim * 0.2; 
+                    wmWidth = Math.max(wmWidth, 80);
+                    if (wmWidth > minDim * 0.5) wmWidth = minDim * 0.5;
+
+                    const wmHeight = wmWidth * (wmImg.height / wmImg.width);
+                    const padding = minDim * 0.04;
+                    
+                    ctx.save();
+                    ctx.shadowColor = "rgba(0, 0, 0, 0.5)";
+                    ctx.shadowBlur = 8;
+                    ctx.shadowOffsetX = 2;
+                    ctx.shadowOffsetY = 2;
+                    ctx.globalAlpha = 0.9;
+                    ctx.drawImage(wmImg, canvas.width - wmWidth - padding, canvas.height - wmHeight - padding, wmWidth, wmHeight);
+                    ctx.restore();
+                    resolve(canvas.toDataURL('image/png'));
+                };
+                wmImg.onerror = (e) => {
+                    console.warn("Failed to load watermark image", e);
+                    resolve(canvas.toDataURL('image/png'));
+                };
+                wmImg.src = WATERMARK_URL;
+                return;
+            }
+
+            if (type === 'rotate') {
+                const angle = Number(param);
+                if (angle % 180 !== 0) {
+                    canvas.width = img.height;
+                    canvas.height = img.width;
+                } else {
+                    canvas.width = img.width;
+                    canvas.height = img.height;
+                }
+                ctx.translate(canvas.width/2, canvas.height/2);
+                ctx.rotate(angle * Math.PI / 180);
+                ctx.drawImage(img, -img.width/2, -img.height/2);
+            } 
+            else if (type === 'filter') {
+                canvas.width = img.width;
+                canvas.height = img.height;
+                const filter = String(param);
+                
+                if (filter === 'grayscale') ctx.filter = 'grayscale(100%) contrast(110%)';
+                else if (filter === 'sepia') ctx.filter = 'sepia(80%) contrast(90%) brightness(105%)';
+                else if (filter === 'warm') ctx.filter = 'sepia(20%) saturate(130%) brightness(105%) contrast(105%)';
+                else if (filter === 'cool') ctx.filter = 'hue-rotate(180deg) sepia(10%) brightness(100%) saturate(90%)';
+                else if (filter === 'vintage') ctx.filter = 'sepia(40%) contrast(85%) brightness(110%) saturate(60%)';
+                else if (filter === 'dramatic') ctx.filter = 'contrast(135%) saturate(110%) brightness(90%)';
+                else if (filter === 'soft') ctx.filter = 'blur(1px) brightness(105%) saturate(90%)';
+                else if (filter === 'blur') ctx.filter = 'blur(4px)';
+                else if (filter === 'brightness') ctx.filter = 'brightness(120%)';
+                else if (filter === 'contrast') ctx.filter = 'contrast(125%)';
+                else if (filter === 'oil') ctx.filter = 'contrast(115%) saturate(140%) sepia(25%) brightness(105%)';
+                else ctx.filter = 'none';
+                
+                ctx.drawImage(img, 0, 0);
+            }
+            else if (type === 'crop') {
+                const [wRatio, hRatio] = String(param).split(':').map(Number);
+                const targetRatio = wRatio / hRatio;
+                const sourceRatio = img.width / img.height;
+                
+                let drawW = img.width;
+                let drawH = img.height;
+                
+                if (sourceRatio > targetRatio) {
+                    drawW = img.height * targetRatio;
+                } else {
+                    drawH = img.width / targetRatio;
+                }
+                
+                canvas.width = drawW;
+                canvas.height = drawH;
+                
+                const x = (img.width - drawW) / 2;
+                const y = (img.height - drawH) / 2;
+                
+                ctx.drawImage(img, x, y, drawW, drawH, 0, 0, drawW, drawH);
+            }
+            
+            resolve(canvas.toDataURL('image/png'));
+        };
+        img.onerror = reject;
+        img.src = base64Data;
+    });
+};
+
+// Helper for Pollinations AI Generation
+const generatePollinationsImage = async (prompt: string, ratio: string = '1:1', signal?: AbortSignal): Promise<string> => {
+    let width = 1024;
+    let height = 1024;
+    if (ratio === '16:9') { width = 1280; height = 720; }
+    else if (ratio === '9:16') { width = 720; height = 1280; }
+    else if (ratio === '4:3') { width = 1024; height = 768; }
+    else if (ratio === '3:4') { width = 768; height = 1024; }
+
+    const seed = Math.floor(Math.random() * 1000000);
+    // Flux is a good default model on Pollinations
+    const url = `${POLLINATIONS_BASE_URL}${encodeURIComponent(prompt)}?width=${width}&height=${height}&seed=${seed}&nologo=true&model=flux`;
+    
+    const response = await fetch(url, { signal });
+    if (!response.ok) throw await errorFromResponse(response, 'Pollinations generation failed');
+    const blob = await response.blob();
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => {
+             resolve(reader.result as string);
+        };
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
+
+// Helper for Kurdish TTS
+const fetchKurdishAudio = async (text: string, dialect: 'sorani' | 'kurmanji', gender: 'male' | 'female', signal?: AbortSignal): Promise<ArrayBuffer> => {
+    const speaker_id = KURDISH_VOICES[dialect][gender];
+
+    const response = await fetch(KURDISH_TTS_URL, {
+        method: 'POST',
+        headers: {
+            'x-api-key': KURDISH_TTS_KEY,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ text, speaker_id }),
+        signal
+    });
+
+    if (!response.ok) throw await errorFromResponse(response, 'Kurdish TTS failed');
+    return await response.arrayBuffer();
+};
+
+// Helper to ensure we have base64 data (handles Blob URLs from user uploads)
+async function urlToBase64(url: string): Promise<{data: string, mimeType: string}> {
+    if (url.startsWith('data:')) {
+        const mimeType = url.substring(url.indexOf(':')+1, url.indexOf(';'));
+        const data = url.split(',')[1];
+        return { data, mimeType };
+    }
+    try {
+        const response = await fetch(url);
+        const blob = await response.blob();
+        return new Promise((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onloadend = () => {
+                const res = reader.result as string;
+                const mimeType = res.substring(res.indexOf(':')+1, res.indexOf(';'));
+                const data = res.split(',')[1];
+                resolve({ data, mimeType });
+            };
+            reader.onerror = reject;
+            reader.readAsDataURL(blob);
+        });
+    } catch (e) {
+        throw new Error("Failed to process image URL");
+    }
+}
+
+// --- Voice Activity Detection ---
+
+// A frame counts as speech when it is `snr` times louder than the measured noise
+// floor (and above `minRms`), crosses zero often enough and keeps most of its
+// energy in the speech band. zcr is zero crossings per sample.
+type VadSensitivity = 'auto' | 'low' | 'medium' | 'high';
+type VadState = 'SILENCE' | 'SPEAKING';
+
+interface VadProfile {
+  snr: number;
+  minRms: number;
+  zcr: number;
+  speechBand: number;
+  speechMs: number;
+  silenceMs: number;
+}
+
+const VAD_PROFILES: Record<Exclude<VadSensitivity, 'auto'>, VadProfile> = {
+  low: { snr: 4, minRms: 0.01, zcr: 0.024, speechBand: 0.6, speechMs: 768, silenceMs: 2048 },
+  medium: { snr: 3, minRms: 0.005, zcr: 0.02, speechBand: 0.5, speechMs: 512, silenceMs: 2560 },
+  high: { snr: 2, minRms: 0.003, zcr: 0.015, speechBand: 0.4, speechMs: 512, silenceMs: 3840 },
+};
+
+const VAD_CALIBRATION_MS = 800;
+const VAD_PRE_ROLL_MS = 320;
+const VAD_MIN_NOISE_FLOOR = 0.0005;
+// The floor follows quiet frames quickly and loud ones slowly, so a passing noise
+// does not raise it much but a room that goes quiet is picked up at once.
+const VAD_FLOOR_FALL_RATE = 0.2;
+const VAD_FLOOR_RISE_RATE = 0.02;
+
+function suggestVadSensitivity(noiseFloor: number): Exclude<VadSensitivity, 'auto'> {
+  if (noiseFloor > 0.008) return 'low';
+  if (noiseFloor < 0.002) return 'high';
+  return 'medium';
+}
+
+// 'auto' picks a profile from the current noise floor.
+function resolveVadProfile(sensitivity: VadSensitivity, noiseFloor: number): VadProfile {
+  return VAD_PROFILES[sensitivity === 'auto' ? suggestVadSensitivity(noiseFloor) : sensitivity];
+}
+
+interface VadResult {
+  // Frames to stream now: empty while gated, the pre-roll plus this frame at speech onset.
+  frames: Float32Array[];
+  // True on the frame where streaming pauses after a turn, so the server can flush.
+  streamPaused: boolean;
+}
+
+interface VoiceActivityDetector {
+  readonly state: VadState;
+  readonly noiseFloor: number;
+  process(frame: CaptureFrame): VadResult;
+}
+
+function createVoiceActivityDetector(
+  sensitivity: VadSensitivity,
+  gateSilence: boolean,
+): VoiceActivityDetector {
+  const toFrames = (ms: number) => Math.ceil(ms / CAPTURE_FRAME_MS);
+  const calibrationFrames = toFrames(VAD_CALIBRATION_MS);
+  const preRollFrames = toFrames(VAD_PRE_ROLL_MS);
+  const calibration: number[] = [];
+  const preRoll: Float32Array[] = [];
+
+  let noiseFloor = VAD_MIN_NOISE_FLOOR;
+  let state: VadState = 'SILENCE';
+  let speechRun = 0;
+  let silenceRun = 0;
+  let transmitting = true;
+
+  return {
+    get state() {
+      return state;
+    },
+    get noiseFloor() {
+      return noiseFloor;
+    },
+    process({ samples, rms, zcr, speechBand }) {
+      // Measure the room first; stream normally meanwhile in case the user talks right away.
+      if (calibration.length < calibrationFrames) {
+        calibration.push(rms);
+        if (calibration.length === calibrationFrames) {
+          const sorted = [...calibration].sort((a, b) => a - b);
+          noiseFloor = Math.max(VAD_MIN_NOISE_FLOOR, sorted[Math.floor(sorted.length / 2)]);
+        }
+        return { frames: [samples], streamPaused: false };
+      }
+
+      const profile = resolveVadProfile(sensitivity, noiseFloor);
+      const isSpeechLike =
+        rms > Math.max(profile.minRms, noiseFloor * profile.snr) &&
+        zcr > profile.zcr &&
+        speechBand > profile.speechBand;
+
+      if (isSpeechLike) {
+        speechRun++;
+        silenceRun = 0;
+        if (speechRun >= toFrames(profile.speechMs)) state = 'SPEAKING';
+      } else {
+        silenceRun++;
+        speechRun = 0;
+        if (silenceRun >= toFrames(profile.silenceMs)) state = 'SILENCE';
+        const rate = rms < noiseFloor ? VAD_FLOOR_FALL_RATE : VAD_FLOOR_RISE_RATE;
+        noiseFloor = Math.max(VAD_MIN_NOISE_FLOOR, noiseFloor + (rms - noiseFloor) * rate);
+      }
+
+      if (!gateSilence) return { frames: [samples], streamPaused: false };
+
+      // Keep streaming through the silence hangover so the server hears the turn end.
+      if (isSpeechLike || state === 'SPEAKING') {
+        if (transmitting) return { frames: [samples], streamPaused: false };
+        transmitting = true;
+        const frames = [...preRoll, samples];
+        preRoll.length = 0;
+        return { frames, streamPaused: false };
+      }
+
+      const streamPaused = transmitting;
+      transmitting = false;
+      preRoll.push(samples);
+      if (preRoll.length > preRollFrames) preRoll.shift();
+      return { frames: [], streamPaused };
+    },
+  };
+}
+
+// --- Talk Modes ---
+
+// Hands-free relies on VAD and server-side turn detection. Push-to-talk disables
+// automatic activity detection and marks each turn explicitly with
+// activityStart/activityEnd while the button or spacebar is held.
+type TalkMode = 'hands-free' | 'push-to-talk';
+const TALK_MODE_STORAGE_KEY = 'live_talk_mode';
+
+function loadTalkMode(): TalkMode {
+  return localStorage.getItem(TALK_MODE_STORAGE_KEY) === 'push-to-talk' ? 'push-to-talk' : 'hands-free';
+}
+
+// --- Live Session Limits ---
+
+// Without context compression the server ends audio sessions after 15 minutes
+// and audio+video sessions after 2. With compression enabled the oldest turns
+// are dropped from the context instead, so sessions can run on.
+const LIVE_AUDIO_SESSION_LIMIT_MS = 15 * 60000;
+const LIVE_VIDEO_SESSION_LIMIT_MS = 2 * 60000;
+const LIVE_LIMIT_WARNING_MS = 60000;
+// Wrap up a little early so the session ends on our side, not mid-sentence on the server's.
+const LIVE_LIMIT_MARGIN_MS = 5000;
+const LIVE_CONTEXT_WINDOW_TOKENS = 128000;
+const LIVE_CONTEXT_WARNING_RATIO = 0.85;
+const LIVE_CONTEXT_END_RATIO = 0.98;
+const LIVE_COMPRESSION_TRIGGER_TOKENS = 100000;
+const LIVE_COMPRESSION_TARGET_TOKENS = 50000;
+const LIVE_COMPRESSION_STORAGE_KEY = 'live_context_compression';
+
+type LiveEndReason = 'user' | 'time-limit' | 'context-limit' | 'error';
+
+const LIVE_END_TITLES: Record<LiveEndReason, string> = {
+  'user': 'Session ended',
+  'time-limit': 'Session time limit reached',
+  'context-limit': 'Conversation memory is full',
+  'error': 'Connection lost',
+};
+
+interface LiveSessionStats {
+  elapsedMs: number;
+  // Sum of every response's token count, i.e. what the session was billed.
+  totalTokens: number;
+  // Prompt size of the latest response, i.e. how full the context window is.
+  contextTokens: number;
+}
+
+interface LiveSessionSummary extends LiveSessionStats {
+  reason: LiveEndReason;
+  startedAt: number;
+  summary?: string;
+  isSummarizing?: boolean;
+}
+
+function liveSessionLimitMs(usedVideo: boolean, compression: boolean): number | null {
+  if (compression) return null;
+  return usedVideo ? LIVE_VIDEO_SESSION_LIMIT_MS : LIVE_AUDIO_SESSION_LIMIT_MS;
+}
+
+// --- Output Device & Mic Test ---
+
+const OUTPUT_DEVICE_STORAGE_KEY = 'audio_output_device';
+// AudioContext.setSinkId is Chromium-only; elsewhere audio follows the system default.
+const supportsOutputSelection =
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+async function applyOutputDevice(ctx: AudioContext, deviceId: string) {
+  if (!supportsOutputSelection || ctx.state === 'closed') return;
+  try {
+    await (ctx as AudioContext & { setSinkId(id: string): Promise<void> }).setSinkId(deviceId === 'default' ? '' : deviceId);
+  } catch (e) {
+    console.warn('Could not switch audio output', e);
+  }
+}
+
+// The test records a quiet stretch to measure the room, then speech to measure
+// the voice level. Levels are the capture worklet's frame RMS at 16 kHz, the same
+// value the VAD compares against its noise floor.
+type MicTestPhase = 'idle' | 'quiet' | 'speak' | 'playback' | 'done';
+const MIC_TEST_QUIET_MS = 1500;
+const MIC_TEST_SPEAK_MS = 4000;
+const MIC_TEST_TARGET_RMS = 0.08;
+const MIC_TEST_CLIP_LEVEL = 0.98;
+const MIC_TEST_METER_FULL_SCALE = 0.2;
+
+interface MicTestResult {
+  noiseFloor: number;
+  speechLevel: number;
+  speechDetected: boolean;
+  clipped: boolean;
+  suggestedGain: number;
+  suggestedVad: Exclude<VadSensitivity, 'auto'>;
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function analyzeMicTest(quietRms: number[], speechRms: number[], peak: number, currentGain: number): MicTestResult {
+  const noiseFloor = Math.max(percentile(quietRms, 0.5), VAD_MIN_NOISE_FLOOR);
+  const speechLevel = percentile(speechRms, 0.9);
+  const speechDetected = speechLevel > noiseFloor * 3 && speechLevel > VAD_PROFILES.high.minRms;
+  const clipped = peak >= MIC_TEST_CLIP_LEVEL;
+
+  let gain = currentGain > 0 ? currentGain : 1;
+  if (currentGain > 0 && speechDetected) gain = currentGain * (MIC_TEST_TARGET_RMS / speechLevel);
+  if (clipped) gain = Math.min(gain, currentGain * 0.8);
+  const suggestedGain = Math.round(Math.min(2, Math.max(0.2, gain)) * 10) / 10;
+
+  // The VAD runs after the gain stage, so judge the room at the suggested gain.
+  const scale = currentGain > 0 ? suggestedGain / currentGain : 1;
+  return {
+    noiseFloor,
+    speechLevel,
+    speechDetected,
+    clipped,
+    suggestedGain,
+    suggestedVad: suggestVadSensitivity(noiseFloor * scale),
+  };
+}
+
+// --- Client Tool Registry ---
+
+// Tools the model can call from both Live and text chat. Declarations are static;
+// handlers need App state, so App supplies a ClientToolHandlers map and both chat
+// modes run calls through the same runner.
+type ClientToolName = 'render_image' | 'translate_text' | 'generate_video' | 'edit_last_image' | 'speak_kurdish';
+
+const CLIENT_TOOL_DECLARATIONS: Record<ClientToolName, FunctionDeclaration> = {
+  render_image: {
+    name: 'render_image',
+    description: 'Generate an image based on a text description.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        prompt: { type: Type.STRING, description: 'The description of the image to generate.' },
+      },
+      required: ['prompt'],
+    },
+  },
+  translate_text: {
+    name: 'translate_text',
+    description: 'Translate text into another language, including Kurdish Sorani and Kurmanji.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING, description: 'The text to translate.' },
+        target_language: { type: Type.STRING, description: 'The language to translate into, e.g. "Kurdish (Sorani)", "Arabic" or "English".' },
+        source_language: { type: Type.STRING, description: 'The language of the text, if known.' },
+      },
+      required: ['text', 'target_language'],
+    },
+  },
+  generate_video: {
+    name: 'generate_video',
+    description: 'Start generating a short video from a description. The video appears in the Videos gallery when ready.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        prompt: { type: Type.STRING, description: 'The description of the video to generate.' },
+      },
+      required: ['prompt'],
+    },
+  },
+  edit_last_image: {
+    name: 'edit_last_image',
+    description: 'Edit the most recent image in the conversation, or the latest generated image, following an instruction.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        instruction: { type: Type.STRING, description: 'What to change in the image.' },
+      },
+      required: ['instruction'],
+    },
+  },
+  speak_kurdish: {
+    name: 'speak_kurdish',
+    description: 'Read Kurdish text aloud with a native Kurdish voice.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING, description: 'The Kurdish text to speak.' },
+        dialect: { type: Type.STRING, enum: ['sorani', 'kurmanji'], description: 'The Kurdish dialect of the text.' },
+      },
+      required: ['text', 'dialect'],
+    },
+  },
+};
+
+const CLIENT_TOOLS = [{ functionDeclarations: Object.values(CLIENT_TOOL_DECLARATIONS) }];
+
+// Chat stops calling tools after this many follow-up turns and shows whatever text it has.
+const MAX_TOOL_ROUNDS = 3;
+
+interface ClientToolResult {
+  // Sent back to the model as the function response.
+  response: Record<string, unknown>;
+  // Shown in the tool's chat bubble.
+  text: string;
+  image?: string;
+  audioUrl?: string;
+}
+
+type ClientToolHandlers = Record<ClientToolName, (args: Record<string, any>, signal?: AbortSignal) => Promise<ClientToolResult>>;
+
+function describePendingToolCall(name: string, args: Record<string, any>): string {
+  switch (name) {
+    case 'render_image': return `Generating image: ${args.prompt}`;
+    case 'translate_text': return `Translating to ${args.target_language}…`;
+    case 'generate_video': return `Starting video: ${args.prompt}`;
+    case 'edit_last_image': return `Editing image: ${args.instruction}`;
+    case 'speak_kurdish': return `Preparing Kurdish audio…`;
+    default: return `Running ${name}…`;
+  }
+}
+
+// --- Chat Memory ---
+
+// Text chat sends the transcript as history. Token counts are estimated client-side
+// (about 4 characters per token); once the history is over budget the oldest turns
+// are folded into a running summary that rides along in the system instruction.
+const CHAT_HISTORY_TOKEN_BUDGET = 32000;
+const CHAT_IMAGE_TOKEN_ESTIMATE = 1000;
+// Older images are replaced with a placeholder so a long chat does not resend every picture.
+const CHAT_HISTORY_MAX_IMAGES = 4;
+
+interface ChatMemory {
+  summary: string;
+  // How many history turns the summary covers; later turns are sent verbatim. Turn
+  // objects are rebuilt by feedback and tool updates, so the last covered turn is
+  // matched by content rather than identity.
+  throughCount: number;
+  throughKey: string;
+}
+
+function isChatHistoryTurn(turn: ConversationTurn): boolean {
+  return !turn.isLoading && !turn.cancelled && !!(turn.text || turn.image);
+}
+
+const chatMemoryKey = (turn: ConversationTurn) => `${turn.speaker}:${turn.image ?? ''}:${turn.text ?? ''}`;
+
+function estimateTurnTokens(turn: ConversationTurn): number {
+  return Math.ceil((turn.text?.length ?? 0) / 4) + (turn.image ? CHAT_IMAGE_TOKEN_ESTIMATE : 0);
+}
+
+// Splits history into turns that no longer fit the budget and the newest turns that do.
+function splitChatHistory(turns: ConversationTurn[], budget: number): { older: ConversationTurn[]; recent: ConversationTurn[] } {
+  let used = 0;
+  let start = turns.length;
+  while (start > 0 && used + estimateTurnTokens(turns[start - 1]) <= budget) {
+    used += estimateTurnTokens(turns[start - 1]);
+    start--;
+  }
+  return { older: turns.slice(0, start), recent: turns.slice(start) };
+}
+
+function formatTurnsForSummary(turns: ConversationTurn[]): string {
+  return turns
+    .map((t) => `${t.speaker === 'user' ? 'User' : 'Assistant'}: ${t.text || ''}${t.image ? ' [image]' : ''}`)
+    .join('\n');
+}
+
+// Consecutive turns from the same speaker are merged, since roles must alternate.
+async function turnsToContents(turns: ConversationTurn[]): Promise<Content[]> {
+  const imageTurns = turns.filter((t) => t.image);
+  const inlineImages = new Set(imageTurns.slice(-CHAT_HISTORY_MAX_IMAGES));
+  const contents: Content[] = [];
+
+  for (const turn of turns) {
+    const role = turn.speaker === 'user' ? 'user' : 'model';
+    const parts: any[] = [];
+    if (turn.image) {
+      if (inlineImages.has(turn)) {
+        try {
+          parts.push({ inlineData: await urlToBase64(turn.image) });
+        } catch {
+          parts.push({ text: '[image no longer available]' });
+        }
+      } else {
+        parts.push({ text: '[earlier image omitted]' });
+      }
+    }
+    if (turn.text) parts.push({ text: turn.text });
+
+    const last = contents[contents.length - 1];
+    if (last?.role === role) last.parts!.push(...parts);
+    else contents.push({ role, parts });
+  }
+  return contents;
+}
+
+// --- Chat Branches ---
+
+// Editing a prompt or regenerating a reply forks the transcript at that turn. The
+// fork turn keeps every version of the transcript from itself onward; the version
+// being shown is the live tail of the transcript, so its slot is refreshed on switch.
+interface ChatFork {
+  index: number;
+  branches: ConversationTurn[][];
+  branchIndex: number;
+}
+
+const stripBranches = ({ branches, branchIndex, ...turn }: ConversationTurn): ConversationTurn => turn;
+
+// Cuts the transcript at `index`, filing the current tail as a version and opening an
+// empty slot for the one about to be written.
+function forkTranscript(transcript: ConversationTurn[], index: number): { head: ConversationTurn[]; fork: ChatFork } {
+  const turn = transcript[index];
+  const branches = [...(turn?.branches ?? [])];
+  if (turn) branches[turn.branchIndex ?? 0] = [stripBranches(turn), ...transcript.slice(index + 1)];
+  return { head: transcript.slice(0, index), fork: { index, branches: [...branches, []], branchIndex: branches.length } };
+}
+
+// Puts the fork on whatever now sits at its index, replacing the placeholder that held
+// the versions while the reply was written if no text ever reached it.
+function attachFork(transcript: ConversationTurn[], { index, branches, branchIndex }: ChatFork): ConversationTurn[] {
+  if (transcript[index]?.isLoading && !transcript[index].text) transcript = transcript.filter((_, i) => i !== index);
+  if (index >= transcript.length) {
+    // Nothing came back, but earlier versions must stay reachable.
+    return [...transcript, { speaker: 'model', text: 'No response.', cancelled: true, branches, branchIndex }];
+  }
+  return transcript.map((t, i) => (i === index ? { ...t, branches, branchIndex } : t));
+}
+
+function switchBranch(transcript: ConversationTurn[], index: number, target: number): ConversationTurn[] {
+  const turn = transcript[index];
+  if (!turn?.branches?.[target]?.length) return transcript;
+  const branches = [...turn.branches];
+  branches[turn.branchIndex ?? 0] = [stripBranches(turn), ...transcript.slice(index + 1)];
+  const [first, ...rest] = branches[target];
+  return [...transcript.slice(0, index), { ...first, branches, branchIndex: target }, ...rest];
+}
+
+// --- Chat Streaming ---
+
+// A streamed reply folded back into the shape of a generateContent response, so the
+// scheduler records its usage and the tool loop can send its content back as history.
+interface StreamedReply {
+  text: string;
+  functionCalls: FunctionCall[];
+  candidates: { content: Content }[];
+  usageMetadata?: GenerateContentResponse['usageMetadata'];
+}
+
+async function collectChatStream(
+  stream: AsyncGenerator<GenerateContentResponse>,
+  onText: (textSoFar: string) => void,
+  onFunctionCalls: (calls: FunctionCall[]) => void,
+): Promise<StreamedReply> {
+  const parts: Part[] = [];
+  const functionCalls: FunctionCall[] = [];
+  let text = '';
+  let usageMetadata: StreamedReply['usageMetadata'];
+
+  for await (const chunk of stream) {
+    usageMetadata = chunk.usageMetadata ?? usageMetadata;
+    const chunkCalls: FunctionCall[] = [];
+    for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+      if (part.functionCall) chunkCalls.push(part.functionCall);
+      const last = parts[parts.length - 1];
+      // Text arrives in fragments; keep it as one part so the history stays compact.
+      if (part.text !== undefined && !part.thought && last?.text !== undefined && !last.thought) {
+        last.text += part.text;
+      } else {
+        parts.push({ ...part });
+      }
+      if (part.text && !part.thought) {
+        text += part.text;
+        onText(text);
+      }
+    }
+    if (chunkCalls.length > 0) {
+      functionCalls.push(...chunkCalls);
+      onFunctionCalls(chunkCalls);
+    }
+  }
+
+  return { text, functionCalls, candidates: [{ content: { role: 'model', parts } }], usageMetadata };
+}
+
+// --- Saved Conversations ---
+
+// Chats are kept in IndexedDB: small metadata records for the sidebar, the turns of
+// each conversation in a separate store so listing stays cheap, and attached images
+// and voice clips as blobs that are handed back to the UI as object URLs.
+interface ConversationMeta {
+  id: string;
+  title: string;
+  // 'pending' titles are a placeholder until the model has named the chat.
+  titleSource: 'pending' | 'auto' | 'user';
+  pinned: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+type StoredTurn = Omit<ConversationTurn, 'image' | 'audioUrl' | 'isLoading' | 'isStreaming' | 'branches'> & {
+  imageBlobId?: string;
+  audioBlobId?: string;
+  branches?: StoredTurn[][];
+};
 
-                    const wmHeight = wmWidth * (wmImg.height / wmImg.width);
-                    const padding = minDim * 0.04;
-                    
-                    ctx.save();
-                    ctx.shadowColor = "rgba(0, 0, 0, 0.5)";
-                    ctx.shadowBlur = 8;
-                    ctx.shadowOffsetX = 2;
-                    ctx.shadowOffsetY = 2;
-                    ctx.globalAlpha = 0.9;
-                    ctx.drawImage(wmImg, canvas.width - wmWidth - padding, canvas.height - wmHeight - padding, wmWidth, wmHeight);
-                    ctx.restore();
-                    resolve(canvas.toDataURL('image/png'));
-                };
-                wmImg.onerror = (e) => {
-                    console.warn("Failed to load watermark image", e);
-                    resolve(canvas.toDataURL('image/png'));
-                };
-                wmImg.src = WATERMARK_URL;
-                return;
-            }
+interface StoredBlob {
+  id: string;
+  conversationId: string;
+  blob: Blob;
+}
 
-            if (type === 'rotate') {
-                const angle = Number(param);
-                if (angle % 180 !== 0) {
-                    canvas.width = img.height;
-                    canvas.height = img.width;
-                } else {
-                    canvas.width = img.width;
-                    canvas.height = img.height;
-                }
-                ctx.translate(canvas.width/2, canvas.height/2);
-                ctx.rotate(angle * Math.PI / 180);
-                ctx.drawImage(img, -img.width/2, -img.height/2);
-            } 
-            else if (type === 'filter') {
-                canvas.width = img.width;
-                canvas.height = img.height;
-                const filter = String(param);
-                
-                if (filter === 'grayscale') ctx.filter = 'grayscale(100%) contrast(110%)';
-                else if (filter === 'sepia') ctx.filter = 'sepia(80%) contrast(90%) brightness(105%)';
-                else if (filter === 'warm') ctx.filter = 'sepia(20%) saturate(130%) brightness(105%) contrast(105%)';
-                else if (filter === 'cool') ctx.filter = 'hue-rotate(180deg) sepia(10%) brightness(100%) saturate(90%)';
-                else if (filter === 'vintage') ctx.filter = 'sepia(40%) contrast(85%) brightness(110%) saturate(60%)';
-                else if (filter === 'dramatic') ctx.filter = 'contrast(135%) saturate(110%) brightness(90%)';
-                else if (filter === 'soft') ctx.filter = 'blur(1px) brightness(105%) saturate(90%)';
-                else if (filter === 'blur') ctx.filter = 'blur(4px)';
-                else if (filter === 'brightness') ctx.filter = 'brightness(120%)';
-                else if (filter === 'contrast') ctx.filter = 'contrast(125%)';
-                else if (filter === 'oil') ctx.filter = 'contrast(115%) saturate(140%) sepia(25%) brightness(105%)';
-                else ctx.filter = 'none';
-                
-                ctx.drawImage(img, 0, 0);
-            }
-            else if (type === 'crop') {
-                const [wRatio, hRatio] = String(param).split(':').map(Number);
-                const targetRatio = wRatio / hRatio;
-                const sourceRatio = img.width / img.height;
-                
-                let drawW = img.width;
-                let drawH = img.height;
-                
-                if (sourceRatio > targetRatio) {
-                    drawW = img.height * targetRatio;
-                } else {
-                    drawH = img.width / targetRatio;
-                }
-                
-                canvas.width = drawW;
-                canvas.height = drawH;
-                
-                const x = (img.width - drawW) / 2;
-                const y = (img.height - drawH) / 2;
-                
-                ctx.drawImage(img, x, y, drawW, drawH, 0, 0, drawW, drawH);
-            }
-            
-            resolve(canvas.toDataURL('image/png'));
-        };
-        img.onerror = reject;
-        img.src = base64Data;
+const CONVERSATIONS_DB_NAME = 'zansti_conversations';
+const CONVERSATION_META_STORE = 'conversations';
+const CONVERSATION_TURNS_STORE = 'turns';
+const CONVERSATION_BLOB_STORE = 'blobs';
+const ACTIVE_CONVERSATION_STORAGE_KEY = 'active_conversation';
+const CONVERSATION_SAVE_DELAY_MS = 800;
+const CONVERSATION_TITLE_MAX_LENGTH = 48;
+
+let conversationDbPromise: Promise<IDBDatabase> | null = null;
+// Media URLs already written for a conversation, so saving again does not copy them.
+const savedBlobIds = new Map<string, string>();
+
+const openConversationDb = () => {
+  if (!conversationDbPromise) {
+    conversationDbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(CONVERSATIONS_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(CONVERSATION_META_STORE, { keyPath: 'id' });
+        db.createObjectStore(CONVERSATION_TURNS_STORE, { keyPath: 'id' });
+        db.createObjectStore(CONVERSATION_BLOB_STORE, { keyPath: 'id' }).createIndex('conversationId', 'conversationId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
     });
+  }
+  return conversationDbPromise;
 };
 
-// Helper for Pollinations AI Generation
-const generatePollinationsImage = async (prompt: string, ratio: string = '1:1'): Promise<string> => {
-    let width = 1024;
-    let height = 1024;
-    if (ratio === '16:9') { width = 1280; height = 720; }
-    else if (ratio === '9:16') { width = 720; height = 1280; }
-    else if (ratio === '4:3') { width = 1024; height = 768; }
-    else if (ratio === '3:4') { width = 768; height = 1024; }
+const transactionDone = (tx: IDBTransaction) => {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
 
-    const seed = Math.floor(Math.random() * 1000000);
-    // Flux is a good default model on Pollinations
-    const url = `${POLLINATIONS_BASE_URL}${encodeURIComponent(prompt)}?width=${width}&height=${height}&seed=${seed}&nologo=true&model=flux`;
-    
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Pollinations generation failed');
-    const blob = await response.blob();
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-             resolve(reader.result as string);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-    });
+// Pinned first, then most recently updated.
+const sortConversations = (list: ConversationMeta[]) =>
+  [...list].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+
+const fallbackConversationTitle = (turns: ConversationTurn[]) => {
+  const first = turns.find((t) => t.speaker === 'user' && t.text)?.text?.replace(/\s+/g, ' ').trim();
+  if (!first) return turns.some((t) => t.image) ? 'Image chat' : 'New chat';
+  return first.length > CONVERSATION_TITLE_MAX_LENGTH ? `${first.slice(0, CONVERSATION_TITLE_MAX_LENGTH - 1).trimEnd()}…` : first;
 };
 
-// Helper for Kurdish TTS
-const fetchKurdishAudio = async (text: string, dialect: 'sorani' | 'kurmanji', gender: 'male' | 'female'): Promise<ArrayBuffer> => {
-    const speaker_id = KURDISH_VOICES[dialect][gender];
+const cleanConversationTitle = (text: string | undefined) => {
+  const title = (text ?? '').split('\n')[0].replace(/^["'*#\s]+|["'*.\s]+$/g, '').trim();
+  return title.slice(0, CONVERSATION_TITLE_MAX_LENGTH);
+};
 
-    const response = await fetch(KURDISH_TTS_URL, {
-        method: 'POST',
-        headers: {
-            'x-api-key': KURDISH_TTS_KEY,
-            'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ text, speaker_id })
+const listConversations = async () => {
+  const db = await openConversationDb();
+  const request = db.transaction(CONVERSATION_META_STORE, 'readonly').objectStore(CONVERSATION_META_STORE).getAll();
+  return sortConversations(await promisifyRequest(request as IDBRequest<ConversationMeta[]>));
+};
+
+const putConversationMeta = async (meta: ConversationMeta) => {
+  const db = await openConversationDb();
+  const tx = db.transaction(CONVERSATION_META_STORE, 'readwrite');
+  tx.objectStore(CONVERSATION_META_STORE).put(meta);
+  await transactionDone(tx);
+};
+
+// Media a save is about to write. Cache entries are only published once it commits.
+interface PendingMedia {
+  blobs: StoredBlob[];
+  cacheEntries: Map<string, string>;
+  referenced: Set<string | undefined>;
+}
+
+const storeTurnMedia = async (conversationId: string, url: string | undefined, pending: PendingMedia) => {
+  if (!url) return undefined;
+  const cacheKey = `${conversationId}:${url}`;
+  const known = pending.cacheEntries.get(cacheKey) ?? savedBlobIds.get(cacheKey);
+  if (known) return known;
+  try {
+    const blob = await (await fetch(url)).blob();
+    const id = `${conversationId}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    pending.blobs.push({ id, conversationId, blob });
+    pending.cacheEntries.set(cacheKey, id);
+    return id;
+  } catch (e) {
+    console.warn('Could not store conversation media', e);
+    return undefined;
+  }
+};
+
+// Replaces media URLs with blob ids, including in the turns of earlier versions.
+const toStoredTurns = async (conversationId: string, turns: ConversationTurn[], pending: PendingMedia) => {
+  const stored: StoredTurn[] = [];
+  for (const turn of turns) {
+    if (turn.isLoading) continue;
+    const { image, audioUrl, isLoading, isStreaming, branches, ...rest } = turn;
+    const storedTurn: StoredTurn = {
+      ...rest,
+      imageBlobId: await storeTurnMedia(conversationId, image, pending),
+      audioBlobId: await storeTurnMedia(conversationId, audioUrl, pending),
+    };
+    if (branches) {
+      storedTurn.branches = [];
+      for (const branch of branches) storedTurn.branches.push(await toStoredTurns(conversationId, branch, pending));
+    }
+    pending.referenced.add(storedTurn.imageBlobId).add(storedTurn.audioBlobId);
+    stored.push(storedTurn);
+  }
+  return stored;
+};
+
+// Writes metadata, turns and any new media in one transaction, then drops media
+// that no remaining turn points at.
+const saveConversation = async (meta: ConversationMeta, turns: ConversationTurn[]) => {
+  const pending: PendingMedia = { blobs: [], cacheEntries: new Map(), referenced: new Set() };
+  const stored = await toStoredTurns(meta.id, turns, pending);
+
+  const db = await openConversationDb();
+  const tx = db.transaction([CONVERSATION_META_STORE, CONVERSATION_TURNS_STORE, CONVERSATION_BLOB_STORE], 'readwrite');
+  tx.objectStore(CONVERSATION_META_STORE).put(meta);
+  tx.objectStore(CONVERSATION_TURNS_STORE).put({ id: meta.id, turns: stored });
+  const blobStore = tx.objectStore(CONVERSATION_BLOB_STORE);
+  pending.blobs.forEach((blob) => blobStore.put(blob));
+  const deleted = new Set<string>();
+  const keysRequest = blobStore.index('conversationId').getAllKeys(meta.id);
+  keysRequest.onsuccess = () => {
+    keysRequest.result.forEach((key) => {
+      if (pending.referenced.has(key as string)) return;
+      blobStore.delete(key);
+      deleted.add(key as string);
     });
+  };
+  await transactionDone(tx);
 
-    if (!response.ok) throw new Error("Kurdish TTS failed");
-    return await response.arrayBuffer();
+  pending.cacheEntries.forEach((id, cacheKey) => savedBlobIds.set(cacheKey, id));
+  for (const [cacheKey, id] of savedBlobIds) {
+    if (deleted.has(id)) savedBlobIds.delete(cacheKey);
+  }
 };
 
-// Helper to ensure we have base64 data (handles Blob URLs from user uploads)
-async function urlToBase64(url: string): Promise<{data: string, mimeType: string}> {
-    if (url.startsWith('data:')) {
-        const mimeType = url.substring(url.indexOf(':')+1, url.indexOf(';'));
-        const data = url.split(',')[1];
-        return { data, mimeType };
+// Returns the turns with fresh object URLs; the caller revokes them when the chat closes.
+const loadConversation = async (id: string): Promise<{ turns: ConversationTurn[]; mediaUrls: string[] }> => {
+  const db = await openConversationDb();
+  const tx = db.transaction([CONVERSATION_TURNS_STORE, CONVERSATION_BLOB_STORE], 'readonly');
+  const [record, blobs] = await Promise.all([
+    promisifyRequest(tx.objectStore(CONVERSATION_TURNS_STORE).get(id) as IDBRequest<{ id: string; turns: StoredTurn[] } | undefined>),
+    promisifyRequest(tx.objectStore(CONVERSATION_BLOB_STORE).index('conversationId').getAll(id) as IDBRequest<StoredBlob[]>),
+  ]);
+  const urls = new Map<string, string>();
+  for (const { id: blobId, blob } of blobs) {
+    const url = URL.createObjectURL(blob);
+    urls.set(blobId, url);
+    savedBlobIds.set(`${id}:${url}`, blobId);
+  }
+  const fromStored = (turns: StoredTurn[]): ConversationTurn[] =>
+    turns.map(({ imageBlobId, audioBlobId, branches, ...turn }) => ({
+      ...turn,
+      image: imageBlobId ? urls.get(imageBlobId) : undefined,
+      audioUrl: audioBlobId ? urls.get(audioBlobId) : undefined,
+      branches: branches?.map(fromStored),
+    }));
+  return { turns: fromStored(record?.turns ?? []), mediaUrls: [...urls.values()] };
+};
+
+const deleteConversation = async (id: string) => {
+  const db = await openConversationDb();
+  const tx = db.transaction([CONVERSATION_META_STORE, CONVERSATION_TURNS_STORE, CONVERSATION_BLOB_STORE], 'readwrite');
+  tx.objectStore(CONVERSATION_META_STORE).delete(id);
+  tx.objectStore(CONVERSATION_TURNS_STORE).delete(id);
+  const blobStore = tx.objectStore(CONVERSATION_BLOB_STORE);
+  const keysRequest = blobStore.index('conversationId').getAllKeys(id);
+  keysRequest.onsuccess = () => keysRequest.result.forEach((key) => blobStore.delete(key));
+  await transactionDone(tx);
+  for (const key of savedBlobIds.keys()) {
+    if (key.startsWith(`${id}:`)) savedBlobIds.delete(key);
+  }
+};
+
+// --- Message Rendering ---
+
+// A small markdown parser for model replies. It covers what the models actually
+// emit (headings, lists, tables, quotes, fenced code, $…$ / $$…$$ math) and
+// renders straight to React elements, so model output is never injected as HTML
+// apart from KaTeX's own escaped markup.
+type MdAlign = 'left' | 'center' | 'right' | null;
+
+type MdBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'code'; lang: string; code: string }
+  | { type: 'math'; tex: string }
+  | { type: 'quote'; blocks: MdBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MdBlock[][] }
+  | { type: 'table'; align: MdAlign[]; header: string[]; rows: string[][] }
+  | { type: 'rule' };
+
+const MD_FENCE = /^\s*(```|~~~)\s*([\w+#.-]*)/;
+const MD_HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const MD_RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const MD_QUOTE = /^\s{0,3}>\s?/;
+const MD_LIST_ITEM = /^(\s*)([-*+]|(\d+)[.)])\s+(.*)$/;
+const MD_MATH_OPEN = /^\s*(\$\$|\\\[)/;
+const MD_TABLE_DIVIDER = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+const isMdBlockStart = (line: string) =>
+  MD_FENCE.test(line) || MD_HEADING.test(line) || MD_RULE.test(line) || MD_QUOTE.test(line) ||
+  MD_LIST_ITEM.test(line) || MD_MATH_OPEN.test(line);
+
+const splitTableRow = (row: string) =>
+  row.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map((cell) => cell.trim());
+
+function parseMarkdown(source: string): MdBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
     }
-    try {
-        const response = await fetch(url);
-        const blob = await response.blob();
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const res = reader.result as string;
-                const mimeType = res.substring(res.indexOf(':')+1, res.indexOf(';'));
-                const data = res.split(',')[1];
-                resolve({ data, mimeType });
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(blob);
-        });
-    } catch (e) {
-        throw new Error("Failed to process image URL");
+
+    const fence = line.match(MD_FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) body.push(lines[i++]);
+      // Skip the closing fence; a reply still streaming may not have one yet.
+      i++;
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), code: body.join('\n') });
+      continue;
+    }
+
+    const mathOpen = line.match(MD_MATH_OPEN);
+    if (mathOpen) {
+      const close = mathOpen[1] === '$$' ? '$$' : '\\]';
+      const first = line.trim().slice(2);
+      const body: string[] = [];
+      i++;
+      if (first.endsWith(close)) {
+        body.push(first.slice(0, -close.length));
+      } else {
+        body.push(first);
+        while (i < lines.length && !lines[i].trim().endsWith(close)) body.push(lines[i++]);
+        if (i < lines.length) body.push(lines[i++].trim().slice(0, -close.length));
+      }
+      blocks.push({ type: 'math', tex: body.join('\n').trim() });
+      continue;
+    }
+
+    const heading = line.match(MD_HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (MD_RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (MD_QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && MD_QUOTE.test(lines[i])) body.push(lines[i++].replace(MD_QUOTE, ''));
+      blocks.push({ type: 'quote', blocks: parseMarkdown(body.join('\n')) });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && MD_TABLE_DIVIDER.test(lines[i + 1])) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map((cell): MdAlign =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) rows.push(splitTableRow(lines[i++]));
+      blocks.push({ type: 'table', align, header, rows });
+      continue;
+    }
+
+    const listItem = line.match(MD_LIST_ITEM);
+    if (listItem) {
+      const indent = listItem[1].length;
+      const ordered = listItem[3] !== undefined;
+      const items: string[][] = [];
+      let contentColumn = 0;
+      let previousBlank = false;
+      while (i < lines.length) {
+        const current = lines[i];
+        const item = current.match(MD_LIST_ITEM);
+        const leading = current.search(/\S/);
+        if (item && item[1].length === indent && (item[3] !== undefined) === ordered) {
+          items.push([item[4]]);
+          contentColumn = indent + item[2].length + 1;
+        } else if (!current.trim()) {
+          items[items.length - 1].push('');
+        } else if (leading > indent || (!previousBlank && !isMdBlockStart(current))) {
+          // Indented lines (nested lists, continued paragraphs) belong to the current item.
+          items[items.length - 1].push(current.slice(Math.min(leading, contentColumn)));
+        } else {
+          break;
+        }
+        previousBlank = !current.trim();
+        i++;
+      }
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(listItem[3], 10) : 1,
+        items: items.map((item) => parseMarkdown(item.join('\n'))),
+      });
+      continue;
     }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !isMdBlockStart(lines[i])) paragraph.push(lines[i++].trim());
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+  }
+  return blocks;
 }
 
-// --- VAD Configuration ---
-type VadSensitivity = 'low' | 'medium' | 'high';
-const VAD_THRESHOLDS: Record<
-  VadSensitivity,
-  { rms: number; zcr: number; speechBuffers: number; silenceBuffers: number }
-> = {
-  low: { rms: 0.01, zcr: 100, speechBuffers: 3, silenceBuffers: 8 },
-  medium: { rms: 0.005, zcr: 80, speechBuffers: 2, silenceBuffers: 10 },
-  high: { rms: 0.003, zcr: 60, speechBuffers: 2, silenceBuffers: 15 },
-};
+// Per-paragraph direction: whichever script has more strong characters wins, so a
+// Sorani sentence that opens with an English word still lays out right-to-left.
+const RTL_CHARS = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/g;
+const LTR_CHARS = /[A-Za-z\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF]/g;
+
+function detectTextDirection(text: string): 'rtl' | 'ltr' {
+  // Code and math say nothing about the language a sentence is written in.
+  const prose = text.replace(/`[^`]*`|\$[^$]*\$/g, '');
+  const rtl = prose.match(RTL_CHARS)?.length ?? 0;
+  const ltr = prose.match(LTR_CHARS)?.length ?? 0;
+  return rtl > ltr ? 'rtl' : 'ltr';
+}
 
-// --- Tool Definitions ---
+function renderMath(tex: string, displayMode: boolean): string {
+  return katex.renderToString(tex, { displayMode, throwOnError: false, output: 'html' });
+}
 
-const renderImageTool: FunctionDeclaration = {
-  name: 'render_image',
-  description: 'Generate an image based on a text description.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      prompt: {
-        type: Type.STRING,
-        description: 'The description of the image to generate.',
-      },
-    },
-    required: ['prompt'],
-  },
-};
+const MD_INLINE = new RegExp([
+  /(`+)([\s\S]*?[^`])\1(?!`)/.source,                                         // 1-2 code
+  /\\\(([\s\S]+?)\\\)/.source,                                                 // 3 \( math \)
+  /\$(?![\s$])((?:\\\$|[^$\n])+?)(?<!\s)\$(?!\d)/.source,                       // 4 $math$
+  /\*\*([\s\S]+?)\*\*|__([\s\S]+?)__/.source,                                  // 5-6 bold
+  /~~([\s\S]+?)~~/.source,                                                     // 7 strike
+  /\*(?![\s*])([\s\S]+?)(?<![\s*])\*|(?<!\w)_(?![\s_])([\s\S]+?)(?<![\s_])_(?!\w)/.source, // 8-9 italic
+  /\[([^\]\n]+)\]\(((?:https?:\/\/|mailto:)[^)\s]+)(?:\s+"[^"]*")?\)/.source,  // 10-11 link
+  /(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/.source,                             // 12 bare URL
+].join('|'), 'g');
+
+function renderInline(text: string, keyPrefix = ''): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  const pushText = (value: string) => {
+    value.split('\n').forEach((line, i) => {
+      if (i > 0) nodes.push(<br key={`${keyPrefix}br${nodes.length}`} />);
+      if (line) nodes.push(line);
+    });
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(MD_INLINE)) {
+    const index = match.index!;
+    pushText(text.slice(last, index));
+    last = index + match[0].length;
+    const key = `${keyPrefix}${index}`;
+    if (match[2] !== undefined) {
+      nodes.push(<code key={key} className="md-inline-code">{match[2].trim()}</code>);
+    } else if (match[3] !== undefined || match[4] !== undefined) {
+      nodes.push(<span key={key} className="md-math" dir="ltr" dangerouslySetInnerHTML={{ __html: renderMath(match[3] ?? match[4], false) }} />);
+    } else if (match[5] !== undefined || match[6] !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(match[5] ?? match[6], `${key}-`)}</strong>);
+    } else if (match[7] !== undefined) {
+      nodes.push(<del key={key}>{renderInline(match[7], `${key}-`)}</del>);
+    } else if (match[8] !== undefined || match[9] !== undefined) {
+      nodes.push(<em key={key}>{renderInline(match[8] ?? match[9], `${key}-`)}</em>);
+    } else if (match[10] !== undefined) {
+      nodes.push(<a key={key} href={match[11]} target="_blank" rel="noopener noreferrer">{renderInline(match[10], `${key}-`)}</a>);
+    } else {
+      nodes.push(<a key={key} href={match[12]} target="_blank" rel="noopener noreferrer">{match[12]}</a>);
+    }
+  }
+  pushText(text.slice(last));
+  return nodes;
+}
+
+// Lightweight highlighting: comments, strings, numbers, keywords and calls. Good
+// enough for the snippets a chat answer contains, across the common languages.
+const CODE_KEYWORDS = new Set((
+  'abstract and as assert async await break case catch class const continue def default defer del delete do elif else ' +
+  'enum except export extends false final finally fn for from func function go if impl implements import in instanceof ' +
+  'interface is lambda let loop match mod module mut new nil none not null of or package pass private protected pub ' +
+  'public raise return self static struct super switch this throw throws true try type typeof undefined use var void ' +
+  'while with yield echo fi then done esac local int float double char bool boolean string long ' +
+  'select where insert into update values set create table drop alter join left right inner outer on group by order ' +
+  'having limit distinct'
+).split(' '));
+const HASH_COMMENT_LANGS = new Set(['python', 'py', 'bash', 'sh', 'shell', 'zsh', 'ruby', 'rb', 'yaml', 'yml', 'toml', 'r', 'perl', 'powershell', 'dockerfile', 'makefile']);
+const DASH_COMMENT_LANGS = new Set(['sql', 'lua', 'haskell', 'hs']);
+const CODE_COMMENT = { hash: /#[^\n]*/.source, dash: /--[^\n]*/.source, slash: /\/\/[^\n]*|\/\*[\s\S]*?\*\//.source };
+const CODE_STRING = /"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`/.source;
+const CODE_NUMBER = /\b(?:0x[\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/.source;
+const CODE_IDENTIFIER = /[A-Za-z_$][\w$]*/.source;
+
+function highlightCode(code: string, lang: string): React.ReactNode[] {
+  const comment = HASH_COMMENT_LANGS.has(lang) ? CODE_COMMENT.hash : DASH_COMMENT_LANGS.has(lang) ? CODE_COMMENT.dash : CODE_COMMENT.slash;
+  const pattern = new RegExp(`(${comment})|(${CODE_STRING})|(${CODE_NUMBER})|(${CODE_IDENTIFIER})`, 'g');
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of code.matchAll(pattern)) {
+    const index = match.index!;
+    let className: string | null = null;
+    if (match[1]) className = 'tok-comment';
+    else if (match[2]) className = 'tok-string';
+    else if (match[3]) className = 'tok-number';
+    else if (CODE_KEYWORDS.has(lang === 'sql' ? match[4].toLowerCase() : match[4])) className = 'tok-keyword';
+    else if (code[index + match[0].length] === '(') className = 'tok-function';
+    if (!className) continue;
+    if (index > last) nodes.push(code.slice(last, index));
+    nodes.push(<span key={index} className={className}>{match[0]}</span>);
+    last = index + match[0].length;
+  }
+  if (last < code.length) nodes.push(code.slice(last));
+  return nodes;
+}
 
 // --- React Component ---
 
@@ -397,11 +2766,28 @@ type ConversationTurn = {
   text?: string;
   image?: string;
   isLoading?: boolean;
+  cancelled?: boolean;
+  // A streamed reply still arriving, or one the user stopped part-way.
+  isStreaming?: boolean;
+  stopped?: boolean;
   id?: string;
   feedback?: 'up' | 'down';
+  // Versions of the transcript from this turn on, see Chat Branches.
+  branches?: ConversationTurn[][];
+  branchIndex?: number;
+  // Turns spoken in a Live session carry their timing and a replayable clip.
+  origin?: 'voice';
+  startedAt?: number;
+  endedAt?: number;
+  audioUrl?: string;
 };
 
-type ConnectionState = 'idle' | 'connecting' | 'connected' | 'error';
+type ConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+
+// Live sessions that drop unexpectedly are resumed with exponential backoff.
+const LIVE_RECONNECT_MAX_ATTEMPTS = 5;
+const LIVE_RECONNECT_BASE_DELAY_MS = 1000;
+const LIVE_RECONNECT_MAX_DELAY_MS = 15000;
 
 interface GeneratedImage {
   id: string;
@@ -415,7 +2801,7 @@ interface GeneratedVideo {
   url: string; // Blob URL
   prompt: string;
   timestamp: number;
-  state: 'generating' | 'completed' | 'failed';
+  state: 'generating' | 'completed' | 'failed' | 'cancelled';
 }
 
 interface EditingState {
@@ -518,14 +2904,269 @@ const ToastContainer = ({ toasts, removeToast }: { toasts: Toast[], removeToast:
                     </div>
                     <span className="toast-message">{toast.message}</span>
                 </div>
-            ))}
+            ))}
+        </div>
+    );
+};
+
+const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'});
+}
+
+const formatTurnTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleTimeString([], {hour: '2-digit', minute: '2-digit', second: '2-digit'});
+}
+
+const CodeBlock = ({ code, lang }: { code: string; lang: string }) => {
+    const [copied, setCopied] = useState(false);
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(code).then(() => {
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1500);
+        });
+    };
+
+    return (
+        <div className="md-code" dir="ltr">
+            <div className="md-code-header">
+                <span>{lang || 'code'}</span>
+                <button type="button" onClick={handleCopy}>{copied ? 'Copied' : 'Copy'}</button>
+            </div>
+            <pre><code>{highlightCode(code, lang)}</code></pre>
+        </div>
+    );
+};
+
+const blockText = (blocks: MdBlock[]): string =>
+    blocks.map((b) => ('text' in b ? b.text : b.type === 'list' ? b.items.map(blockText).join(' ') : '')).join(' ');
+
+const renderMdBlocks = (blocks: MdBlock[], trailing?: React.ReactNode): React.ReactNode[] => {
+    return blocks.map((block, i) => {
+        // The streaming cursor sits at the end of the last block rather than on a line of its own.
+        const tail = i === blocks.length - 1 ? trailing : undefined;
+        switch (block.type) {
+            case 'paragraph':
+                return <p key={i} dir={detectTextDirection(block.text)}>{renderInline(block.text)}{tail}</p>;
+            case 'heading': {
+                const Heading = `h${Math.min(block.level + 2, 6)}` as 'h3';
+                return <Heading key={i} dir={detectTextDirection(block.text)}>{renderInline(block.text)}{tail}</Heading>;
+            }
+            case 'code':
+                return <React.Fragment key={i}><CodeBlock code={block.code} lang={block.lang} />{tail}</React.Fragment>;
+            case 'math':
+                return <React.Fragment key={i}><div className="md-math-block" dir="ltr" dangerouslySetInnerHTML={{ __html: renderMath(block.tex, true) }} />{tail}</React.Fragment>;
+            case 'quote':
+                return <blockquote key={i} dir={detectTextDirection(blockText(block.blocks))}>{renderMdBlocks(block.blocks, tail)}</blockquote>;
+            case 'rule':
+                return <React.Fragment key={i}><hr />{tail}</React.Fragment>;
+            case 'list': {
+                const items = block.items.map((item, j) => {
+                    const itemTail = j === block.items.length - 1 ? tail : undefined;
+                    // Tight list items render inline instead of wrapping a single paragraph.
+                    const content = item.length === 1 && item[0].type === 'paragraph'
+                        ? <>{renderInline(item[0].text)}{itemTail}</>
+                        : renderMdBlocks(item, itemTail);
+                    return <li key={j} dir={detectTextDirection(blockText(item))}>{content}</li>;
+                });
+                const dir = detectTextDirection(blockText([block]));
+                return block.ordered
+                    ? <ol key={i} start={block.start} dir={dir}>{items}</ol>
+                    : <ul key={i} dir={dir}>{items}</ul>;
+            }
+            case 'table':
+                return (
+                    <div key={i} className="md-table-wrapper">
+                        <table dir={detectTextDirection([...block.header, ...block.rows.flat()].join(' '))}>
+                            <thead>
+                                <tr>{block.header.map((cell, j) => <th key={j} style={{ textAlign: block.align[j] ?? undefined }}>{renderInline(cell)}</th>)}</tr>
+                            </thead>
+                            <tbody>
+                                {block.rows.map((row, r) => (
+                                    <tr key={r}>{row.map((cell, j) => <td key={j} style={{ textAlign: block.align[j] ?? undefined }}>{renderInline(cell)}</td>)}</tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {tail}
+                    </div>
+                );
+        }
+    });
+};
+
+// Memoised so only the bubble whose text changed is parsed again while a reply streams.
+const MessageContent = React.memo(({ text, isStreaming }: { text: string; isStreaming?: boolean }) => (
+    <div className="message-text rich">
+        {renderMdBlocks(parseMarkdown(text), isStreaming ? <span className="typing-cursor" /> : undefined)}
+    </div>
+));
+
+// "‹ 2/3 ›" arrows for a turn that has been edited or regenerated
+const VersionNav = ({ index, total, onChange, disabled }: {
+    index: number;
+    total: number;
+    onChange: (index: number) => void;
+    disabled?: boolean;
+}) => (
+    <div className="version-nav" dir="ltr">
+        <button type="button" onClick={() => onChange(index - 1)} disabled={disabled || index === 0} title="Previous version">‹</button>
+        <span>{index + 1}/{total}</span>
+        <button type="button" onClick={() => onChange(index + 1)} disabled={disabled || index === total - 1} title="Next version">›</button>
+    </div>
+);
+
+// Elapsed time, tokens and context use for the open Live session. It ticks on its
+// own so the once-a-second update does not re-render the whole app.
+const LiveSessionMeter = ({ startedAtRef, usageRef, limitMs }: {
+    startedAtRef: React.RefObject<number | null>;
+    usageRef: React.RefObject<{ totalTokens: number; contextTokens: number }>;
+    limitMs: number | null;
+}) => {
+    const [now, setNow] = useState(Date.now);
+
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(timer);
+    }, []);
+
+    const startedAt = startedAtRef.current;
+    if (startedAt === null) return null;
+    const { totalTokens, contextTokens } = usageRef.current;
+    const contextShare = contextTokens / LIVE_CONTEXT_WINDOW_TOKENS;
+
+    return (
+        <div className="live-session-meter">
+            <span>
+                {formatClock(Math.floor(Math.max(0, now - startedAt) / 1000))}
+                {limitMs !== null && ` / ${formatClock(limitMs / 1000)}`}
+            </span>
+            <span>{formatCount(totalTokens)} tokens</span>
+            <span className="live-context-usage" title="Context window used">
+                <span className="live-context-bar">
+                    <span style={{ width: `${Math.min(100, contextShare * 100)}%` }} />
+                </span>
+                {Math.round(contextShare * 100)}%
+            </span>
+        </div>
+    );
+};
+
+// Prebuilt voice dropdown with a play button for a short sample
+const VoiceSelect = ({ value, onChange, onPreview, isPreviewing, disabled }: {
+    value: string;
+    onChange: (voiceName: string) => void;
+    onPreview: () => void;
+    isPreviewing: boolean;
+    disabled?: boolean;
+}) => (
+    <div className="voice-select">
+        <select value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled}>
+            {PREBUILT_VOICES.map(voice => (
+                <option key={voice.name} value={voice.name}>
+                    {voice.name} · {voice.style} ({voice.gender === 'female' ? 'F' : 'M'})
+                </option>
+            ))}
+        </select>
+        <button type="button" className={`voice-preview-btn ${isPreviewing ? 'active' : ''}`} onClick={onPreview} title="Preview voice">
+            {isPreviewing ? (
+                <svg viewBox="0 0 24 24" fill="currentColor"><path d="M6 6h12v12H6z"/></svg>
+            ) : (
+                <svg viewBox="0 0 24 24" fill="currentColor"><path d="M8 5v14l11-7z"/></svg>
+            )}
+        </button>
+    </div>
+);
+
+// Header pill showing what the request scheduler is running and what is waiting
+const RequestQueueIndicator = () => {
+    const [requests, setRequests] = useState<ScheduledRequest[]>(getSchedulerSnapshot);
+    const [isOpen, setIsOpen] = useState(false);
+    const [, setTick] = useState(0);
+
+    useEffect(() => subscribeScheduler(() => setRequests(getSchedulerSnapshot())), []);
+
+    // Keep waiting times fresh while anything is queued
+    useEffect(() => {
+        if (requests.length === 0) return;
+        const interval = setInterval(() => setTick(t => t + 1), 1000);
+        return () => clearInterval(interval);
+    }, [requests.length]);
+
+    if (requests.length === 0) return null;
+
+    const running = requests.filter(r => r.state === 'running').length;
+    const queued = requests.length - running;
+    const now = Date.now();
+
+    return (
+        <div className="queue-indicator">
+            <button className="queue-pill" onClick={() => setIsOpen(!isOpen)} title="Request queue">
+                <span className="queue-pill-dot"></span>
+                {running} running{queued > 0 && ` · ${queued} queued`}
+            </button>
+            {isOpen && (
+                <div className="queue-popover">
+                    {requests.map(r => (
+                        <div key={r.id} className={`queue-item ${r.state}`}>
+                            <div className="queue-item-label">{r.label}</div>
+                            <div className="queue-item-meta">
+                                {r.model} • {r.priority} • {r.state === 'running'
+                                    ? `running ${Math.round((now - (r.startedAt || now)) / 1000)}s`
+                                    : getModelBudgetAvailableAt(r.model, now) > now
+                                        ? `waiting for rate budget (${Math.ceil((getModelBudgetAvailableAt(r.model, now) - now) / 1000)}s)`
+                                        : `queued ${Math.round((now - r.enqueuedAt) / 1000)}s`}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
         </div>
     );
 };
 
-const formatDate = (timestamp: number) => {
-    return new Date(timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'});
-}
+// Live health indicator for a vault key. Subscribes to the health store directly so
+// countdowns tick without re-rendering the whole settings modal.
+const KeyStatusBadge = ({ apiKey }: { apiKey: string }) => {
+    const [, setTick] = useState(0);
+
+    useEffect(() => {
+        const unsubscribe = subscribeKeyHealth(() => setTick(t => t + 1));
+        const interval = setInterval(() => {
+            if (getKeyAvailableAt(apiKey) > Date.now()) setTick(t => t + 1);
+        }, 1000);
+        return () => {
+            unsubscribe();
+            clearInterval(interval);
+        };
+    }, [apiKey]);
+
+    const health = getKeyHealth(apiKey);
+    const now = Date.now();
+    const secondsLeft = (until: number) => Math.ceil((until - now) / 1000);
+
+    let status: 'healthy' | 'cooldown' | 'exhausted' = 'healthy';
+    let label = 'Healthy';
+    if (health.quotaExhaustedUntil > now) {
+        status = 'exhausted';
+        label = `Quota exhausted (${Math.ceil(secondsLeft(health.quotaExhaustedUntil) / 60)}m)`;
+    } else if (health.cooldownUntil > now) {
+        status = 'cooldown';
+        label = `Cooling down (${secondsLeft(health.cooldownUntil)}s)`;
+    }
+
+    const details = [
+        health.consecutiveRateLimitErrors > 0 ? `${health.consecutiveRateLimitErrors} recent 429s` : '',
+        health.lastError ? `Last error (${formatDate(health.lastErrorAt)}): ${health.lastError}` : '',
+    ].filter(Boolean).join('\n');
+
+    return (
+        <span className={`key-status key-status-${status}`} title={details || undefined}>
+            <span className="key-status-dot"></span>
+            {label}
+            {health.consecutiveRateLimitErrors > 0 && status === 'healthy' && ` • ${health.consecutiveRateLimitErrors}×429`}
+        </span>
+    );
+};
 
 // --- Lazy Loading Configuration ---
 // Shared observer instance to improve performance with large lists
@@ -721,6 +3362,111 @@ const DownloadManagerModal = ({
     );
 };
 
+const formatCount = (n: number) => n >= 1000000 ? `${(n / 1000000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
+// Per-key and per-model usage totals read from the IndexedDB ledger, with daily request budgets
+const UsageDashboard = ({ apiKeys }: { apiKeys: string[] }) => {
+    const [period, setPeriod] = useState<'today' | 'week'>('today');
+    const [records, setRecords] = useState<UsageRecord[]>([]);
+    const [budgets, setBudgets] = useState<Record<string, number>>(loadUsageBudgets);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = () => {
+            getUsageSince(startOfDay(period === 'today' ? 0 : 6))
+                .then(result => { if (!cancelled) setRecords(result); })
+                .catch(e => console.warn('Failed to load usage', e));
+        };
+        load();
+        const unsubscribe = subscribeUsage(load);
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [period]);
+
+    const handleBudgetChange = (key: string, value: string) => {
+        const next = { ...budgets };
+        const parsed = parseInt(value, 10);
+        if (parsed > 0) next[key] = parsed;
+        else delete next[key];
+        setBudgets(next);
+        saveUsageBudgets(next);
+    };
+
+    const byKey = aggregateUsage(records, 'key');
+    const byModel = aggregateUsage(records, 'model');
+    const todayByKey = aggregateUsage(records.filter(r => r.timestamp >= startOfDay()), 'key');
+    // Vault keys are always listed, even before their first request
+    const keyRows = Array.from(new Set([...apiKeys.map(maskApiKey), ...byKey.keys()]));
+
+    const renderTotals = (totals?: UsageTotals) => (
+        <>
+            <span>{totals?.requests || 0}</span>
+            <span>{formatCount(totals?.inputTokens || 0)}</span>
+            <span>{formatCount(totals?.outputTokens || 0)}</span>
+            <span>{totals?.images || 0}</span>
+            <span>{totals?.videoSeconds || 0}s</span>
+            <span className={totals?.errors ? 'usage-errors' : ''}>{totals?.errors || 0}</span>
+        </>
+    );
+
+    const header = (label: string) => (
+        <div className="usage-row usage-head">
+            <span>{label}</span><span>Req</span><span>In</span><span>Out</span><span>Img</span><span>Video</span><span>Err</span>
+        </div>
+    );
+
+    return (
+        <div className="usage-dashboard">
+            <div className="dm-tabs">
+                <button className={`dm-tab ${period === 'today' ? 'active' : ''}`} onClick={() => setPeriod('today')}>Today</button>
+                <button className={`dm-tab ${period === 'week' ? 'active' : ''}`} onClick={() => setPeriod('week')}>Last 7 days</button>
+            </div>
+
+            <div className="usage-table">
+                {header('Key')}
+                {keyRows.map(key => {
+                    const budget = budgets[key];
+                    const usedToday = todayByKey.get(key)?.requests || 0;
+                    const budgetLevel = !budget ? '' : usedToday >= budget ? 'over' : usedToday >= budget * USAGE_BUDGET_WARNING_RATIO ? 'near' : '';
+                    return (
+                        <div key={key} className={`usage-key-block ${budgetLevel}`}>
+                            <div className="usage-row">
+                                <span className="key-code">{key}</span>
+                                {renderTotals(byKey.get(key))}
+                            </div>
+                            <div className="usage-budget-row">
+                                <span>Daily budget</span>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    className="usage-budget-input"
+                                    placeholder="No limit"
+                                    value={budget || ''}
+                                    onChange={e => handleBudgetChange(key, e.target.value)}
+                                />
+                                {budget && <span className="usage-budget-used">{usedToday}/{budget} requests today</span>}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="usage-table">
+                {header('Model')}
+                {Array.from(byModel.entries()).map(([model, totals]) => (
+                    <div key={model} className="usage-row">
+                        <span className="usage-model">{model}</span>
+                        {renderTotals(totals)}
+                    </div>
+                ))}
+                {byModel.size === 0 && <div className="dm-empty">No requests recorded yet.</div>}
+            </div>
+        </div>
+    );
+};
+
 const App: React.FC = () => {
   // Tab State
   const [activeTab, setActiveTab] = useState<'chat' | 'speak' | 'image-gen' | 'video-gen' | 'translate'>('chat');
@@ -731,6 +3477,8 @@ const App: React.FC = () => {
   // API Key Vault State
   const [apiKeys, setApiKeys] = useState<string[]>([]);
   const apiKeyRotationRef = useRef(0);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>('plaintext');
+  const vaultSessionRef = useRef<VaultSession | null>(null);
 
   // Chat State
   const [connectionState, setConnectionState] =
@@ -740,7 +3488,9 @@ const App: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
-  const [voiceGender, setVoiceGender] = useState<'female' | 'male'>('female');
+  const [voicePreferences, setVoicePreferences] = useState<VoicePreferences>(loadVoicePreferences);
+  const [previewingVoice, setPreviewingVoice] = useState<string | null>(null);
+  const previewAudioCtxRef = useRef<AudioContext | null>(null);
   
   // Editor State
   const [editingImage, setEditingImage] = useState<EditingState | null>(null);
@@ -748,6 +3498,7 @@ const App: React.FC = () => {
   const [magicPrompt, setMagicPrompt] = useState('');
   const [isProcessingEdit, setIsProcessingEdit] = useState(false);
   const [showCompare, setShowCompare] = useState(false);
+  const editAbortRef = useRef<AbortController | null>(null);
 
   // Translation State
   const [sourceLang, setSourceLang] = useState('Auto');
@@ -755,6 +3506,7 @@ const App: React.FC = () => {
   const [transInput, setTransInput] = useState('');
   const [transOutput, setTransOutput] = useState('');
   const [isTranslating, setIsTranslating] = useState(false);
+  const translateAbortRef = useRef<AbortController | null>(null);
 
   // TTS State
   const [playingTTS, setPlayingTTS] = useState<'input' | 'output' | null>(null);
@@ -769,9 +3521,26 @@ const App: React.FC = () => {
   // Text Input State (Chat)
   const [textInput, setTextInput] = useState('');
   const [isProcessingText, setIsProcessingText] = useState(false);
+  const chatAbortRef = useRef<AbortController | null>(null);
   const [attachment, setAttachment] = useState<{file: File, preview: string} | null>(null);
+  const chatMemoryRef = useRef<ChatMemory | null>(null);
+  const [editingTurn, setEditingTurn] = useState<{ index: number; text: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Saved Conversations State
+  const [conversations, setConversations] = useState<ConversationMeta[]>([]);
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const activeConversationRef = useRef<string | null>(null);
+  const [conversationsReady, setConversationsReady] = useState(false);
+  const [isConversationListOpen, setIsConversationListOpen] = useState(false);
+  const [renamingConversation, setRenamingConversation] = useState<{ id: string; title: string } | null>(null);
+  // The transcript as last written (or loaded), so unchanged chats are not saved again.
+  const savedTranscriptRef = useRef<ConversationTurn[]>([]);
+  const conversationMediaUrlsRef = useRef<string[]>([]);
+  const titlingConversationsRef = useRef(new Set<string>());
+
   // Image Generation Page State
   const [imageGenPrompt, setImageGenPrompt] = useState('');
   const [isGeneratingImagePage, setIsGeneratingImagePage] = useState(false);
@@ -779,11 +3548,13 @@ const App: React.FC = () => {
   const [imageModel, setImageModel] = useState<string>('gemini-2.5-flash-image');
   const [aspectRatio, setAspectRatio] = useState<string>('1:1');
   const [imageStyle, setImageStyle] = useState<string>('none');
+  const imageGenAbortRef = useRef<AbortController | null>(null);
 
   // Video Generation Page State
   const [videoGenPrompt, setVideoGenPrompt] = useState('');
   const [isGeneratingVideo, setIsGeneratingVideo] = useState(false);
   const [videoHistory, setVideoHistory] = useState<GeneratedVideo[]>([]);
+  const videoAbortControllersRef = useRef(new Map<string, AbortController>());
 
   // Download Manager State
   const [isManagerOpen, setIsManagerOpen] = useState(false);
@@ -793,16 +3564,79 @@ const App: React.FC = () => {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([]);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>('default');
+  const [outputDevices, setOutputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [selectedOutputId, setSelectedOutputId] = useState<string>(
+    () => localStorage.getItem(OUTPUT_DEVICE_STORAGE_KEY) || 'default',
+  );
   const [inputGain, setInputGain] = useState(1.0);
+  const [micProcessing, setMicProcessing] = useState<MicProcessingSettings>(loadMicProcessingSettings);
+  // A/B comparison: true routes around every processing stage until switched back.
+  const [micProcessingBypassed, setMicProcessingBypassed] = useState(false);
+  const [isMicMonitoring, setIsMicMonitoring] = useState(false);
+  const micChainRef = useRef<MicProcessingChain | null>(null);
+  const micMonitorCtxRef = useRef<AudioContext | null>(null);
+  const micMonitorStreamRef = useRef<MediaStream | null>(null);
+  const micMonitorChainRef = useRef<MicProcessingChain | null>(null);
+  const [micTestPhase, setMicTestPhase] = useState<MicTestPhase>('idle');
+  const [micTestResult, setMicTestResult] = useState<MicTestResult | null>(null);
+  const micTestCtxRef = useRef<AudioContext | null>(null);
+  const micTestStreamRef = useRef<MediaStream | null>(null);
+  const micTestBufferRef = useRef<AudioBuffer | null>(null);
+  const micTestSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // The meter is driven straight from the capture worklet without re-rendering.
+  const micTestMeterRef = useRef<HTMLDivElement>(null);
   const [vadSensitivity, setVadSensitivity] =
-    useState<VadSensitivity>('medium');
+    useState<VadSensitivity>('auto');
+  const [silenceGating, setSilenceGating] = useState(true);
+  const [talkMode, setTalkMode] = useState<TalkMode>(loadTalkMode);
+  const [playbackSettings, setPlaybackSettings] = useState<PlaybackSettings>(loadPlaybackSettings);
+  const [recordSession, setRecordSession] = useState(false);
+  const [liveCompression, setLiveCompression] = useState(() => localStorage.getItem(LIVE_COMPRESSION_STORAGE_KEY) !== 'false');
+  const [liveLimitWarning, setLiveLimitWarning] = useState<string | null>(null);
+  const [liveSummary, setLiveSummary] = useState<LiveSessionSummary | null>(null);
+  // Set on the first open and kept across reconnects, since the server limits count the whole session.
+  const liveSessionStartRef = useRef<number | null>(null);
+  const liveUsageRef = useRef({ totalTokens: 0, contextTokens: 0 });
+  const liveUsedVideoRef = useRef(false);
+  // The warning currently shown; the first one of a session also raises a toast.
+  const liveWarnedRef = useRef<string | null>(null);
+  const [sessionRecording, setSessionRecording] = useState<SessionRecording | null>(null);
+  const recordingAudioRef = useRef<HTMLAudioElement>(null);
+  const [visualSource, setVisualSource] = useState<VisualSource | null>(null);
+  const [visualStream, setVisualStream] = useState<MediaStream | null>(null);
+  const [cameraFacing, setCameraFacing] = useState<CameraFacing>('user');
+  const [hasMultipleCameras, setHasMultipleCameras] = useState(false);
+  const visualPreviewRef = useRef<HTMLVideoElement>(null);
+  // Frames are grabbed from a detached video element so capture keeps running
+  // even when the preview tile is not mounted.
+  const visualCaptureVideoRef = useRef<HTMLVideoElement | null>(null);
+  const visualCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const visualFrameTimerRef = useRef<number | null>(null);
+  const [isPushToTalkActive, setIsPushToTalkActive] = useState(false);
+  const pushToTalkActiveRef = useRef(false);
   const [backgroundImage, setBackgroundImage] = useState<string | null>(null);
 
   const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  const liveSessionOpenRef = useRef(false);
+  const liveStoppingRef = useRef(false);
+  const resumptionHandleRef = useRef<string | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  // Tools called during a Live session are cancelled when it ends. Results that finish
+  // while the connection is being replaced wait for the resumed session.
+  const liveToolAbortRef = useRef<AbortController | null>(null);
+  const pendingToolResponsesRef = useRef<FunctionResponse[]>([]);
+  const recorderNodeRef = useRef<AudioWorkletNode | null>(null);
+  const recordingMixRef = useRef<GainNode | null>(null);
+  const recordingMicSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const recordingChunksRef = useRef<Int16Array[]>([]);
+  const recordingMarkersRef = useRef<RecordingMarker[]>([]);
+  const recordingStartTimeRef = useRef(0);
+  const lastRecordedSpeakerRef = useRef<'user' | 'model' | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const captureNodeRef = useRef<AudioWorkletNode | null>(null);
   const mediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const inputGainNodeRef = useRef<GainNode | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -811,17 +3645,24 @@ const App: React.FC = () => {
   const magicInputRef = useRef<HTMLInputElement>(null);
 
   // Refs for the new VAD logic
-  const vadStateRef = useRef<'SILENCE' | 'SPEAKING'>('SILENCE');
-  const speechConsecutiveBuffersRef = useRef(0);
-  const silenceConsecutiveBuffersRef = useRef(0);
+  const vadStateRef = useRef<VadState>('SILENCE');
 
   const currentInputTranscriptionRef = useRef('');
   const currentOutputTranscriptionRef = useRef('');
   const transcriptContainerRef = useRef<HTMLDivElement>(null);
   const isSpeakingRef = useRef(false);
 
-  const nextStartTimeRef = useRef(0);
-  const audioSourcesRef = useRef(new Set<AudioBufferSourceNode>());
+  const playbackNodeRef = useRef<AudioWorkletNode | null>(null);
+  // Audio and timing for the Live turn in progress, committed on turnComplete.
+  const liveUserClipRef = useRef<Int16Array[]>([]);
+  const liveModelClipRef = useRef<Int16Array[]>([]);
+  // Clears posted to the playback worklet that have not reported back yet. A turn that
+  // completes meanwhile is committed once its clip has been trimmed.
+  const clearsInFlightRef = useRef(0);
+  const commitAfterClearRef = useRef(false);
+  const liveUserTurnStartRef = useRef<number | null>(null);
+  const liveModelTurnStartRef = useRef<number | null>(null);
+  const playbackGainRef = useRef<GainNode | null>(null);
   
   // Magic Edit Suggestions
   const magicSuggestions = [
@@ -882,34 +3723,156 @@ const App: React.FC = () => {
 
   // --- API Key Management ---
   
-  // Load API keys from localStorage
+  // Load API keys from localStorage. An encrypted vault stays locked until the passphrase is entered.
   useEffect(() => {
-      const storedKeys = localStorage.getItem('custom_api_keys');
-      if(storedKeys) {
-          try {
-             setApiKeys(JSON.parse(storedKeys));
-          } catch(e) { console.error("Failed to parse API keys", e); }
+      if (loadEncryptedVault()) {
+          setVaultStatus('locked');
+      } else {
+          setApiKeys(loadPlaintextKeys());
       }
   }, []);
 
-  // Persist API keys
+  // Persist API keys, encrypted when the vault has a passphrase
   const saveApiKeys = (keys: string[]) => {
       setApiKeys(keys);
-      localStorage.setItem('custom_api_keys', JSON.stringify(keys));
+      if (vaultSessionRef.current) {
+          encryptVault(keys, vaultSessionRef.current)
+              .then(vault => localStorage.setItem(ENCRYPTED_KEYS_STORAGE_KEY, JSON.stringify(vault)))
+              .catch(e => {
+                  console.error("Failed to encrypt API keys", e);
+                  addToast("Failed to save encrypted keys", "error");
+              });
+      } else {
+          localStorage.setItem(PLAINTEXT_KEYS_STORAGE_KEY, JSON.stringify(keys));
+      }
+  };
+
+  const lockVault = useCallback(() => {
+      vaultSessionRef.current = null;
+      setApiKeys([]);
+      setVaultStatus('locked');
+  }, []);
+
+  const handleUnlockVault = async (passphrase: string) => {
+      const vault = loadEncryptedVault();
+      if (!vault) return false;
+      try {
+          const { keys, session } = await unlockVault(vault, passphrase);
+          vaultSessionRef.current = session;
+          setVaultStatus('unlocked');
+
+          // Migrate any plaintext keys left over from before the vault was encrypted
+          const legacyKeys = loadPlaintextKeys().filter(k => !keys.includes(k));
+          if (legacyKeys.length > 0) {
+              saveApiKeys([...keys, ...legacyKeys].slice(0, 6));
+              localStorage.removeItem(PLAINTEXT_KEYS_STORAGE_KEY);
+              addToast(`Migrated ${legacyKeys.length} unencrypted key(s) into the vault`, "info");
+          } else {
+              setApiKeys(keys);
+          }
+          addToast("Vault unlocked", "success");
+          return true;
+      } catch (e: any) {
+          console.error("Vault unlock failed", e);
+          addToast(e.message || "Failed to unlock vault", "error");
+          return false;
+      }
+  };
+
+  const handleSetPassphrase = async (passphrase: string) => {
+      if (passphrase.length < VAULT_MIN_PASSPHRASE_LENGTH) {
+          addToast(`Passphrase must be at least ${VAULT_MIN_PASSPHRASE_LENGTH} characters`, "error");
+          return false;
+      }
+      try {
+          const session = await createVaultSession(passphrase);
+          const vault = await encryptVault(apiKeys, session);
+          localStorage.setItem(ENCRYPTED_KEYS_STORAGE_KEY, JSON.stringify(vault));
+          localStorage.removeItem(PLAINTEXT_KEYS_STORAGE_KEY);
+          vaultSessionRef.current = session;
+          setVaultStatus('unlocked');
+          addToast("API keys encrypted", "success");
+          return true;
+      } catch (e) {
+          console.error("Vault encryption failed", e);
+          addToast("Failed to encrypt API keys", "error");
+          return false;
+      }
+  };
+
+  const handleClearPassphrase = () => {
+      if (vaultStatus !== 'unlocked') return;
+      if (!window.confirm("Remove the passphrase? Your API keys will be stored unencrypted on this device.")) return;
+      localStorage.setItem(PLAINTEXT_KEYS_STORAGE_KEY, JSON.stringify(apiKeys));
+      localStorage.removeItem(ENCRYPTED_KEYS_STORAGE_KEY);
+      vaultSessionRef.current = null;
+      setVaultStatus('plaintext');
+      addToast("Passphrase removed", "info");
   };
 
+  // Auto-lock the vault after a period without user activity
+  useEffect(() => {
+      if (vaultStatus !== 'unlocked') return;
+      let timer: ReturnType<typeof setTimeout>;
+      const resetTimer = () => {
+          clearTimeout(timer);
+          timer = setTimeout(() => {
+              lockVault();
+              addToast("Vault locked after inactivity", "info");
+          }, VAULT_AUTO_LOCK_MS);
+      };
+      resetTimer();
+      window.addEventListener('pointerdown', resetTimer);
+      window.addEventListener('keydown', resetTimer);
+      return () => {
+          clearTimeout(timer);
+          window.removeEventListener('pointerdown', resetTimer);
+          window.removeEventListener('keydown', resetTimer);
+      };
+  }, [vaultStatus, lockVault, addToast]);
+
   const getEffectiveApiKey = useCallback(() => {
       if (apiKeys.length > 0) {
-          // Simple rotation: Pick based on counter, increment for next time
-          const idx = apiKeyRotationRef.current % apiKeys.length;
-          apiKeyRotationRef.current += 1;
-          return apiKeys[idx];
+          // Rotate through healthy keys, skipping any that are cooling down or out of quota
+          const { key, index } = selectApiKey(apiKeys, apiKeyRotationRef.current);
+          apiKeyRotationRef.current = index + 1;
+          return key;
       }
       return process.env.API_KEY;
   }, [apiKeys]);
   
+  // Warn once per day when a key nears or passes its daily request budget
+  const budgetWarningsRef = useRef(new Set<string>());
+  useEffect(() => subscribeUsage(async (record) => {
+      const budget = loadUsageBudgets()[record.key];
+      if (!budget || record.followUp) return;
+      try {
+          const usedToday = (await getUsageSince(startOfDay())).filter(r => r.key === record.key && !r.followUp).length;
+          const level = usedToday >= budget ? 'reached' : usedToday >= budget * USAGE_BUDGET_WARNING_RATIO ? 'near' : null;
+          if (!level) return;
+          const warningId = `${record.key}:${startOfDay()}:${level}`;
+          if (budgetWarningsRef.current.has(warningId)) return;
+          budgetWarningsRef.current.add(warningId);
+          addToast(
+              level === 'reached'
+                  ? `${record.key} reached its daily budget (${usedToday}/${budget} requests)`
+                  : `${record.key} is nearing its daily budget (${usedToday}/${budget} requests)`,
+              level === 'reached' ? 'error' : 'info'
+          );
+      } catch (e) {
+          console.warn('Failed to check usage budget', e);
+      }
+  }), [addToast]);
+
   // Client-side API Key Validation
   const validateApiKey = useCallback(async () => {
+    // Encrypted keys are unavailable until the user unlocks the vault
+    if (vaultStatus === 'locked') {
+        addToast("API key vault is locked. Enter your passphrase to continue.", "info");
+        setIsSettingsOpen(true);
+        return false;
+    }
+
     // If we have custom keys, we are good to go
     if (apiKeys.length > 0) return true;
 
@@ -935,7 +3898,7 @@ const App: React.FC = () => {
     
     addToast("API Key not found. Please configure your environment.", "error");
     return false;
-  }, [addToast, apiKeys]);
+  }, [addToast, apiKeys, vaultStatus]);
 
   // PWA Install Prompt Listener
   useEffect(() => {
@@ -994,49 +3957,196 @@ const App: React.FC = () => {
 
   // --- ENHANCED: Robust Audio Playback ---
 
+  // Only audio still queued in the playback worklet is dropped; what has played stays played.
   const interruptAndClearAudioQueue = useCallback(() => {
-    for (const source of audioSourcesRef.current.values()) {
-      source.stop();
-    }
-    audioSourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
+    const playbackNode = playbackNodeRef.current;
+    if (!playbackNode) return;
+    clearsInFlightRef.current++;
+    playbackNode.port.postMessage({ type: 'clear' });
   }, []);
 
-  const playAudioChunk = useCallback(async (base64Audio: string) => {
-    if (!outputAudioContextRef.current) return;
-    const audioCtx = outputAudioContextRef.current;
-    
-    nextStartTimeRef.current = Math.max(
-      nextStartTimeRef.current,
-      audioCtx.currentTime
-    );
-
-    const audioBuffer = await decodeAudioData(
-      decode(base64Audio),
-      audioCtx,
-      24000,
-      1 
-    );
+  const updatePlaybackSettings = (patch: Partial<PlaybackSettings>) => {
+    const next = { ...playbackSettings, ...patch };
+    setPlaybackSettings(next);
+    localStorage.setItem(PLAYBACK_SETTINGS_STORAGE_KEY, JSON.stringify(next));
+    if (playbackGainRef.current) playbackGainRef.current.gain.value = next.volume;
+    playbackNodeRef.current?.port.postMessage({ type: 'config', rate: next.rate, jitterMs: next.jitterMs });
+  };
 
-    const source = audioCtx.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(audioCtx.destination);
+  // Adds a turn marker to the session recording when the speaker changes.
+  const markRecordingTurn = useCallback((speaker: 'user' | 'model') => {
+    const outputCtx = outputAudioContextRef.current;
+    if (!recorderNodeRef.current || !outputCtx || lastRecordedSpeakerRef.current === speaker) return;
+    lastRecordedSpeakerRef.current = speaker;
+    recordingMarkersRef.current.push({
+      seconds: Math.max(0, outputCtx.currentTime - recordingStartTimeRef.current),
+      label: speaker === 'user' ? 'User' : 'Model',
+    });
+  }, []);
 
-    source.addEventListener('ended', () => {
-      audioSourcesRef.current.delete(source);
+  const finishSessionRecording = useCallback(() => {
+    const recorder = recorderNodeRef.current;
+    if (!recorder) return;
+    recorder.port.onmessage = null;
+    recorder.disconnect();
+    recordingMixRef.current?.disconnect();
+    recordingMicSourceRef.current?.disconnect();
+    recorderNodeRef.current = null;
+    recordingMixRef.current = null;
+    recordingMicSourceRef.current = null;
+
+    const chunks = recordingChunksRef.current;
+    const markers = [...recordingMarkersRef.current].sort((a, b) => a.seconds - b.seconds);
+    recordingChunksRef.current = [];
+    recordingMarkersRef.current = [];
+    if (chunks.length === 0) return;
+
+    const sampleCount = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const blob = encodeWavWithMarkers(chunks, RECORDING_SAMPLE_RATE, markers);
+    setSessionRecording({
+      url: URL.createObjectURL(blob),
+      fileName: `live-session-${new Date().toISOString().replace(/[:.]/g, '-')}.wav`,
+      durationSeconds: sampleCount / RECORDING_SAMPLE_RATE,
+      markers,
     });
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (sessionRecording) URL.revokeObjectURL(sessionRecording.url);
+    };
+  }, [sessionRecording]);
+
+  const playAudioChunk = useCallback((base64Audio: string) => {
+    const playbackNode = playbackNodeRef.current;
+    if (!playbackNode) return;
+    const pcm = decode(base64Audio);
+    liveModelClipRef.current.push(new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2)));
+    liveModelTurnStartRef.current ??= Date.now();
+    const samples = pcm16ToFloat32(pcm);
+    playbackNode.port.postMessage({ type: 'push', samples }, [samples.buffer]);
+  }, []);
+
+  // Drops the unplayed tail of the model clip after an interruption, so the
+  // clip matches what the user actually heard.
+  const trimModelClip = useCallback((dropped: number) => {
+    const chunks = liveModelClipRef.current;
+    while (dropped > 0 && chunks.length > 0) {
+      const last = chunks[chunks.length - 1];
+      if (last.length <= dropped) {
+        dropped -= last.length;
+        chunks.pop();
+      } else {
+        chunks[chunks.length - 1] = last.subarray(0, last.length - dropped);
+        dropped = 0;
+      }
+    }
+  }, []);
+
+  const appendUserClip = useCallback((samples: Float32Array) => {
+    const chunks = liveUserClipRef.current;
+    chunks.push(floatToInt16(samples));
+    liveUserTurnStartRef.current ??= Date.now();
+    let total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    while (total > LIVE_CLIP_MAX_SECONDS * CAPTURE_SAMPLE_RATE && chunks.length > 1) {
+      total -= chunks.shift()!.length;
+    }
+  }, []);
+
+  // Moves the Live turn in progress into the transcript with its timing and clips.
+  const commitLiveTurn = useCallback(() => {
+    const fullInput = currentInputTranscriptionRef.current.trim();
+    const fullOutput = currentOutputTranscriptionRef.current.trim();
+    const now = Date.now();
+    const modelStartedAt = liveModelTurnStartRef.current ?? now;
+    const userStartedAt = liveUserTurnStartRef.current ?? modelStartedAt;
+    const userClip = fullInput ? createClipUrl(liveUserClipRef.current, CAPTURE_SAMPLE_RATE) : undefined;
+    const modelClip = fullOutput ? createClipUrl(liveModelClipRef.current, PLAYBACK_SAMPLE_RATE) : undefined;
+
+    liveUserClipRef.current = [];
+    liveModelClipRef.current = [];
+    liveUserTurnStartRef.current = null;
+    liveModelTurnStartRef.current = null;
+    currentInputTranscriptionRef.current = '';
+    currentOutputTranscriptionRef.current = '';
+    setCurrentTurn([]);
 
-    source.start(nextStartTimeRef.current);
-    nextStartTimeRef.current += audioBuffer.duration;
-    audioSourcesRef.current.add(source);
+    if (!fullInput && !fullOutput) return;
+    setTranscript((prev) => {
+      const newTranscript = [...prev];
+      if (fullInput) {
+        newTranscript.push({
+          speaker: 'user',
+          text: fullInput,
+          origin: 'voice',
+          startedAt: userStartedAt,
+          endedAt: Math.max(userStartedAt, fullOutput ? modelStartedAt : now),
+          audioUrl: userClip,
+        });
+      }
+      if (fullOutput) {
+        newTranscript.push({
+          speaker: 'model',
+          text: fullOutput,
+          origin: 'voice',
+          startedAt: modelStartedAt,
+          endedAt: now,
+          audioUrl: modelClip,
+        });
+      }
+      return newTranscript;
+    });
   }, []); 
 
-  const generateImage = useCallback(async (prompt: string, model: string = 'gemini-2.5-flash-image', ratio: string = '1:1'): Promise<string | null> => {
+  // Handlers are reassigned every render so they always see current state.
+  const clientToolsRef = useRef<ClientToolHandlers | null>(null);
+
+  // Runs every call in a model response side by side, each with its own chat bubble.
+  const runClientToolCalls = useCallback(async (calls: FunctionCall[], signal?: AbortSignal): Promise<FunctionResponse[]> => {
+    return Promise.all(calls.map(async (call, index): Promise<FunctionResponse> => {
+      const name = call.name ?? '';
+      const args = (call.args ?? {}) as Record<string, any>;
+      const handler = clientToolsRef.current?.[name as ClientToolName];
+      if (!handler) return { id: call.id, name, response: { error: `Unknown tool: ${name}` } };
+
+      const turnId = call.id || `tool-${Date.now()}-${index}-${Math.random().toString(36).slice(2, 8)}`;
+      setTranscript((prev) => [...prev, { speaker: 'model', text: describePendingToolCall(name, args), isLoading: true, id: turnId }]);
+      const settle = (turn: ConversationTurn) => setTranscript((prev) => prev.map((t) => (t.id === turnId ? turn : t)));
+
+      try {
+        const result = await handler(args, signal);
+        settle({ speaker: 'model', text: result.text, image: result.image, audioUrl: result.audioUrl, isLoading: false, id: turnId });
+        return { id: call.id, name, response: result.response };
+      } catch (e) {
+        const error = classifyGeminiError(e);
+        if (error instanceof CancelledError) {
+          // The caller reports the cancellation once for the whole reply.
+          setTranscript((prev) => prev.filter((t) => t.id !== turnId));
+          throw error;
+        }
+        console.error(`Tool ${name} failed`, e);
+        settle({ speaker: 'model', text: `Could not complete ${name}. ${describeGeminiError(error)}`, isLoading: false, id: turnId });
+        return { id: call.id, name, response: { error: describeGeminiError(error) } };
+      }
+    }));
+  }, []);
+
+  const generateImage = useCallback(async (
+    prompt: string,
+    model: string = 'gemini-2.5-flash-image',
+    ratio: string = '1:1',
+    priority: RequestPriority = 'normal',
+    signal?: AbortSignal
+  ): Promise<string | null> => {
+    // Cancellation is rethrown as CancelledError so callers can tell it apart from failure (null)
+
     // 1. Explicit Pollinations Mode
     if (model === 'pollinations') {
         try {
-            return await generatePollinationsImage(prompt, ratio);
+            return await generatePollinationsImage(prompt, ratio, signal);
         } catch (e) {
+            const error = classifyGeminiError(e);
+            if (error instanceof CancelledError) throw error;
             console.error(e);
             addToast("Pollinations generation failed", "error");
             return null;
@@ -1064,16 +4174,14 @@ const App: React.FC = () => {
 
     try {
       // Retry logic wrapper
-      const response = await retryWithBackoff(async () => {
-          // KEY CHANGE: Pick key inside loop to rotate on retry
-          const activeKey = getEffectiveApiKey();
-          if (!activeKey) throw new Error("No API Key available");
-
+      const response = await retryWithBackoff(async (activeKey) => {
+          // Key is picked per attempt so retries rotate to a healthy key
           const ai = new GoogleGenAI({ apiKey: activeKey });
-          return await ai.models.generateContent({
+          return await scheduleGeminiRequest({ model, label: 'Image generation', feature: 'image', priority, apiKey: activeKey, signal }, () => ai.models.generateContent({
             model: model,
             contents: { parts: [{ text: prompt }] },
             config: {
+                abortSignal: signal,
                 imageConfig: {
                     aspectRatio: ratio
                 },
@@ -1084,10 +4192,10 @@ const App: React.FC = () => {
                     { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
                 ]
             }
-          });
+          }));
       }, 5, 2000, (attempt, delay) => {
           addToast(`Server busy, retrying in ${Math.round(delay/1000)}s... (${attempt}/5)`, 'info');
-      });
+      }, getEffectiveApiKey, signal);
       
       if (response.candidates?.[0]?.content?.parts) {
         for (const part of response.candidates[0].content.parts) {
@@ -1103,20 +4211,26 @@ const App: React.FC = () => {
           }
         }
       }
+      // No image part: surface a safety block instead of failing silently
+      assertNotSafetyBlocked(response);
     } catch (e: any) {
+      const error = classifyGeminiError(e);
+      if (error instanceof CancelledError) throw error;
       console.error('Image generation failed:', e);
       
       // Fallback Logic for Quota/Rate Limits
-      if (e.message?.includes('Quota exceeded') || e.message?.includes('quota') || e.status === 402 || e.status === 429) {
+      if (error instanceof QuotaExhaustedError || error instanceof RateLimitedError) {
           addToast('Gemini Limit Reached. Falling back to Pollinations (Free)...', 'info');
           try {
-             return await generatePollinationsImage(prompt, ratio);
+             return await generatePollinationsImage(prompt, ratio, signal);
           } catch (fallbackErr) {
+             const fallbackError = classifyGeminiError(fallbackErr);
+             if (fallbackError instanceof CancelledError) throw fallbackError;
              console.error("Fallback generation failed", fallbackErr);
              addToast("Fallback generation also failed.", "error");
           }
       } else {
-          addToast('Image generation failed. Safety block or API error.', 'error');
+          addToast(`Image generation failed. ${describeGeminiError(error)}`, 'error');
       }
     }
     return null;
@@ -1138,25 +4252,27 @@ const App: React.FC = () => {
      setIsGeneratingVideo(true);
      addToast("Starting video generation...", "info");
 
+     const controller = new AbortController();
+     videoAbortControllersRef.current.set(id, controller);
+     const signal = controller.signal;
+
      try {
         // Protect initial call with Retry Logic and Key Rotation
-        let operation = await retryWithBackoff(async () => {
-            const activeKey = getEffectiveApiKey();
-            if (!activeKey) throw new Error("No API Key");
-            
+        let operation = await retryWithBackoff(async (activeKey) => {
             const ai = new GoogleGenAI({ apiKey: activeKey });
-            return await ai.models.generateVideos({
+            return await scheduleGeminiRequest({ model: 'veo-3.1-fast-generate-preview', label: 'Video generation', feature: 'video', priority: 'normal', apiKey: activeKey, signal }, () => ai.models.generateVideos({
                 model: 'veo-3.1-fast-generate-preview',
                 prompt: prompt,
                 config: {
+                    abortSignal: signal,
                     numberOfVideos: 1,
                     resolution: '720p',
                     aspectRatio: '16:9'
                 }
-            });
+            }));
         }, 5, 8000, (attempt, delay) => { // Veo can be busy, start with 8s
             addToast(`High traffic, retrying video gen... (${attempt}/5)`, 'info');
-        });
+        }, getEffectiveApiKey, signal);
 
         // Robust Polling Loop with Adaptive Backoff
         let pollFailures = 0;
@@ -1164,50 +4280,59 @@ const App: React.FC = () => {
 
         while (!operation.done) {
             // Dynamic wait time based on current status
-            await new Promise(resolve => setTimeout(resolve, pollWaitBase));
+            await abortableDelay(pollWaitBase, signal);
 
+            // We use a fresh client for polling to allow key rotation if polling hits rate limits
+            const pollKey = getEffectiveApiKey() || process.env.API_KEY || '';
             try {
-                // We use a fresh client for polling to allow key rotation if polling hits rate limits
-                const pollKey = getEffectiveApiKey() || process.env.API_KEY || '';
                 const ai = new GoogleGenAI({ apiKey: pollKey });
                 
-                operation = await ai.operations.getVideosOperation({operation: operation});
+                const current = operation;
+                operation = await scheduleGeminiRequest(
+                    { model: 'operations', label: 'Video status check', feature: 'video', priority: 'background', apiKey: pollKey, signal, followUpOf: 'veo-3.1-fast-generate-preview' },
+                    () => ai.operations.getVideosOperation({ operation: current, config: { abortSignal: signal } })
+                );
                 pollFailures = 0; // Reset on success
                 pollWaitBase = 5000; // Reset wait base on success
-            } catch (pollErr: any) {
+            } catch (rawPollErr: any) {
                 pollFailures++;
-                console.warn(`Polling error (attempt ${pollFailures}):`, pollErr);
-                
-                const isRateLimit = pollErr.status === 429 || /429|Too Many Requests|exhausted/i.test(pollErr.message);
-                const isQuota = pollErr.message?.includes('Quota') || pollErr.status === 402;
+                console.warn(`Polling error (attempt ${pollFailures}):`, rawPollErr);
+                const pollErr = classifyGeminiError(rawPollErr);
 
-                if (isQuota) {
-                    throw new Error("Daily Video Quota Limit Reached during polling.");
-                }
+                if (pollErr instanceof CancelledError) throw pollErr;
+                if (pollErr instanceof QuotaExhaustedError || pollErr instanceof AuthDeniedError) throw pollErr;
                 
-                if (isRateLimit) {
+                if (pollErr instanceof RateLimitedError) {
                      addToast("Video service busy, slowing down checks...", "info");
                      // Rate limit on polling: Increase wait time exponentially, cap at 30s
-                     pollWaitBase = Math.min(pollWaitBase * 2, 30000);
+                     pollWaitBase = Math.max(Math.min(pollWaitBase * 2, 30000), pollErr.retryAfterMs ?? 0);
                 } else {
                      // For other transient errors, just bump slightly
                      pollWaitBase = Math.min(pollWaitBase + 2000, 15000);
                 }
                 
                 if (pollFailures > 20) {
-                    throw new Error("Lost connection to video generation service.");
+                    throw new NetworkError("Lost connection to video generation service.", { original: pollErr });
                 }
                 // Continue loop to try again
                 continue;
             }
         }
 
+        if (operation.error) {
+            throw classifyGeminiError(operation.error);
+        }
+        if (operation.response?.raiMediaFilteredReasons?.length) {
+            throw new SafetyBlockedError(operation.response.raiMediaFilteredReasons.join(' '));
+        }
+
         const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
         
         if (videoUri) {
              // For the fetch, we need a key. Use the current effective key.
              const finalKey = getEffectiveApiKey() || process.env.API_KEY;
-             const response = await fetch(`${videoUri}&key=${finalKey}`);
+             const response = await fetch(`${videoUri}&key=${finalKey}`, { signal });
+             if (!response.ok) throw await errorFromResponse(response, 'Video download failed');
              const blob = await response.blob();
              const url = URL.createObjectURL(blob);
              
@@ -1220,19 +4345,27 @@ const App: React.FC = () => {
         }
 
      } catch (e: any) {
+         const error = classifyGeminiError(e);
+         if (error instanceof CancelledError) {
+             setVideoHistory(prev => prev.map(v => 
+                v.id === id ? { ...v, state: 'cancelled' } : v
+             ));
+             addToast("Video generation cancelled", "info");
+             return;
+         }
+
          console.error("Veo generation failed:", e);
          setVideoHistory(prev => prev.map(v => 
             v.id === id ? { ...v, state: 'failed' } : v
          ));
          
-         if (e.message?.includes('Quota exceeded') || e.message?.includes('quota')) {
+         if (error instanceof QuotaExhaustedError) {
             addToast("Daily Video Quota Limit Reached.", "error");
-         } else if (e.status === 429) {
-            addToast("Video Service overloaded. Please try again later.", "error");
          } else {
-             addToast(`Video generation failed: ${e.message?.substring(0, 40)}...`, "error");
+             addToast(`Video generation failed: ${describeGeminiError(error)}`, "error");
          }
      } finally {
+         videoAbortControllersRef.current.delete(id);
          setIsGeneratingVideo(false);
      }
   }, [addToast, getEffectiveApiKey, validateApiKey]);
@@ -1251,7 +4384,12 @@ const App: React.FC = () => {
       setImageHistory(prev => prev.filter(img => img.id !== id));
   };
   
+  const cancelVideo = (id: string) => {
+      videoAbortControllersRef.current.get(id)?.abort();
+  };
+
   const deleteVideo = (id: string) => {
+      cancelVideo(id);
       setVideoHistory(prev => prev.filter(vid => vid.id !== id));
   };
 
@@ -1274,6 +4412,78 @@ const App: React.FC = () => {
       return () => stopTTS();
   }, [stopTTS]);
 
+  const updateVoicePreferences = (update: (prefs: VoicePreferences) => VoicePreferences) => {
+    setVoicePreferences((prev) => {
+      const next = update(prev);
+      localStorage.setItem(VOICE_PREFERENCES_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const setVoiceFor = (kind: 'live' | 'tts', language: VoiceLanguage, voiceName: string) => {
+    updateVoicePreferences((prefs) => ({ ...prefs, [kind]: { ...prefs[kind], [language]: voiceName } }));
+  };
+
+  const stopVoicePreview = useCallback(() => {
+    previewAudioCtxRef.current?.close();
+    previewAudioCtxRef.current = null;
+    setPreviewingVoice(null);
+  }, []);
+
+  useEffect(() => {
+      return () => stopVoicePreview();
+  }, [stopVoicePreview]);
+
+  // previewKey identifies the button that started the preview, so only that one shows as playing.
+  const previewVoice = async (voiceName: string, language: VoiceLanguage, previewKey: string) => {
+    if (previewingVoice === previewKey) {
+      stopVoicePreview();
+      return;
+    }
+    stopVoicePreview();
+
+    const cacheKey = `${voiceName}:${language}`;
+    let base64 = voicePreviewCache.get(cacheKey);
+    if (!base64 && !(await validateApiKey())) return;
+    setPreviewingVoice(previewKey);
+
+    try {
+      if (!base64) {
+        const text = VOICE_LANGUAGES.find((l) => l.id === language)!.previewText.replace('{name}', voiceName);
+        const response = await retryWithBackoff(async (activeKey) => {
+          const ai = new GoogleGenAI({ apiKey: activeKey });
+          return await scheduleGeminiRequest({ model: 'gemini-2.5-flash-preview-tts', label: `Voice preview (${voiceName})`, feature: 'tts', priority: 'interactive', apiKey: activeKey }, () => ai.models.generateContent({
+            model: 'gemini-2.5-flash-preview-tts',
+            contents: { parts: [{ text }] },
+            config: {
+              responseModalities: [Modality.AUDIO],
+              speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+            },
+          }));
+        }, 3, 2000, undefined, getEffectiveApiKey);
+        base64 = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!base64) throw new Error("No audio content returned");
+        voicePreviewCache.set(cacheKey, base64);
+      }
+
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      const ctx = new AudioContextClass({ sampleRate: 24000 });
+      previewAudioCtxRef.current = ctx;
+      await applyOutputDevice(ctx, selectedOutputId);
+      const source = ctx.createBufferSource();
+      source.buffer = await decodeAudioData(decode(base64), ctx, 24000, 1);
+      source.connect(ctx.destination);
+      source.onended = () => {
+        if (previewAudioCtxRef.current === ctx) stopVoicePreview();
+      };
+      source.start();
+    } catch (e) {
+      console.error("Voice preview error", e);
+      addToast(`Could not preview ${voiceName}. ${describeGeminiError(classifyGeminiError(e))}`, "error");
+      stopVoicePreview();
+    }
+  };
+
   const handleTTS = async (text: string, target: 'input' | 'output') => {
     if (playingTTS === target) {
         stopTTS(); 
@@ -1285,20 +4495,9 @@ const App: React.FC = () => {
     if (!text.trim()) return;
     
     // Determine language from context
-    let isKurdish = false;
-    let dialect: 'sorani' | 'kurmanji' = 'sorani';
-    
-    if (target === 'input') {
-        if (sourceLang.includes('Kurdish')) {
-             isKurdish = true;
-             dialect = sourceLang.includes('Kurmanji') ? 'kurmanji' : 'sorani';
-        }
-    } else {
-        if (targetLang.includes('Kurdish')) {
-             isKurdish = true;
-             dialect = targetLang.includes('Kurmanji') ? 'kurmanji' : 'sorani';
-        }
-    }
+    const language = toVoiceLanguage(target === 'input' ? sourceLang : targetLang);
+    const voiceName = voicePreferences.tts[language];
+    const isKurdish = language === 'sorani' || language === 'kurmanji';
     
     // For Kurdish, we don't necessarily need the Gemini API Key
     if (!isKurdish && !(await validateApiKey())) return;
@@ -1310,29 +4509,31 @@ const App: React.FC = () => {
         const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
         const ctx = new AudioContextClass({ sampleRate: 24000 });
         ttsAudioCtxRef.current = ctx;
+        applyOutputDevice(ctx, selectedOutputId);
         
         let audioBuffer: AudioBuffer;
 
         if (isKurdish) {
-             const arrayBuffer = await fetchKurdishAudio(text, dialect, voiceGender);
+             const arrayBuffer = await fetchKurdishAudio(text, language as 'sorani' | 'kurmanji', getVoiceGender(voiceName));
              audioBuffer = await ctx.decodeAudioData(arrayBuffer);
         } else {
-            const activeKey = getEffectiveApiKey();
-            if (!activeKey) throw new Error("No API Key");
-            const ai = new GoogleGenAI({ apiKey: activeKey });
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-preview-tts',
-                contents: { parts: [{ text: text }] },
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: {
-                        voiceConfig: {
-                            prebuiltVoiceConfig: { voiceName: 'Puck' }
+            const response = await retryWithBackoff(async (activeKey) => {
+                const ai = new GoogleGenAI({ apiKey: activeKey });
+                return await scheduleGeminiRequest({ model: 'gemini-2.5-flash-preview-tts', label: 'Text to speech', feature: 'tts', priority: 'interactive', apiKey: activeKey }, () => ai.models.generateContent({
+                    model: 'gemini-2.5-flash-preview-tts',
+                    contents: { parts: [{ text: text }] },
+                    config: {
+                        responseModalities: [Modality.AUDIO],
+                        speechConfig: {
+                            voiceConfig: {
+                                prebuiltVoiceConfig: { voiceName }
+                            }
                         }
                     }
-                }
-            });
+                }));
+            }, 3, 2000, (attempt, delay) => {
+                addToast(`Server busy, retrying in ${Math.round(delay/1000)}s... (${attempt}/3)`, 'info');
+            }, getEffectiveApiKey);
 
             const part = response.candidates?.[0]?.content?.parts?.[0];
             const base64 = part?.inlineData?.data;
@@ -1366,41 +4567,52 @@ const App: React.FC = () => {
         setIsTTSLoading(false); // Ready to play
     } catch (e: any) {
         console.error("TTS Error", e);
-        addToast(e.message || "Failed to generate speech", "error");
+        addToast(`Failed to generate speech. ${describeGeminiError(classifyGeminiError(e))}`, "error");
         setPlayingTTS(null);
         setIsTTSLoading(false);
         stopTTS();
     }
   };
 
+  const translateText = useCallback(async (text: string, from: string, to: string, signal?: AbortSignal): Promise<string> => {
+      // Simple text translation prompt
+      const prompt = `Act as a professional translator. Translate the following text from ${from} to ${to}. 
+      Do not add any explanations, conversational filler, or notes. Just provide the direct translation.
+      
+      Text to translate:
+      "${text}"`;
+      
+      const response = await retryWithBackoff(async (activeKey) => {
+          const ai = new GoogleGenAI({ apiKey: activeKey });
+          return await scheduleGeminiRequest({ model: 'gemini-2.5-flash', label: 'Translation', feature: 'translate', priority: 'interactive', apiKey: activeKey, signal }, () => ai.models.generateContent({
+              model: 'gemini-2.5-flash',
+              contents: prompt,
+              config: { abortSignal: signal }
+          }));
+      }, 3, 2000, undefined, getEffectiveApiKey, signal);
+      return (response.text ?? '').trim();
+  }, [getEffectiveApiKey]);
+
   const handleTranslate = async () => {
       if (!transInput.trim()) return;
       if (!(await validateApiKey())) return;
       
       stopTTS(); // Stop any playing audio on new translation request
       setIsTranslating(true);
+      const controller = new AbortController();
+      translateAbortRef.current = controller;
       try {
-          const activeKey = getEffectiveApiKey();
-          if (!activeKey) throw new Error("No API Key");
-          const ai = new GoogleGenAI({ apiKey: activeKey });
-          
-          // Simple text translation prompt
-          const prompt = `Act as a professional translator. Translate the following text from ${sourceLang} to ${targetLang}. 
-          Do not add any explanations, conversational filler, or notes. Just provide the direct translation.
-          
-          Text to translate:
-          "${transInput}"`;
-          
-          const response = await ai.models.generateContent({
-              model: 'gemini-2.5-flash',
-              contents: prompt
-          });
-          
-          setTransOutput(response.text.trim());
+          setTransOutput(await translateText(transInput, sourceLang, targetLang, controller.signal));
       } catch(e) {
-          console.error("Translation error", e);
-          addToast("Translation failed. Please try again.", "error");
+          const error = classifyGeminiError(e);
+          if (error instanceof CancelledError) {
+              addToast("Translation cancelled", "info");
+          } else {
+              console.error("Translation error", e);
+              addToast(`Translation failed. ${describeGeminiError(error)}`, "error");
+          }
       } finally {
+          translateAbortRef.current = null;
           setIsTranslating(false);
       }
   };
@@ -1567,28 +4779,124 @@ const App: React.FC = () => {
     }
   }, []);
 
+  const stopVisualInput = useCallback(() => {
+    if (visualFrameTimerRef.current) {
+      clearInterval(visualFrameTimerRef.current);
+      visualFrameTimerRef.current = null;
+    }
+    const video = visualCaptureVideoRef.current;
+    if (video) {
+      (video.srcObject as MediaStream | null)?.getTracks().forEach((track) => track.stop());
+      video.srcObject = null;
+      visualCaptureVideoRef.current = null;
+    }
+    setVisualStream(null);
+    setVisualSource(null);
+  }, []);
+
+  const startVisualInput = useCallback(async (source: VisualSource, facing: CameraFacing = 'user') => {
+    let stream: MediaStream;
+    try {
+      stream = source === 'camera'
+        ? await navigator.mediaDevices.getUserMedia({
+            video: { facingMode: facing, width: { ideal: 1280 }, height: { ideal: 720 } },
+          })
+        : await navigator.mediaDevices.getDisplayMedia({ video: true });
+    } catch (err) {
+      console.error(err);
+      if ((err as Error).name !== 'NotAllowedError') {
+        addToast(source === 'camera' ? "Could not open the camera" : "Could not start screen sharing", "error");
+      }
+      return;
+    }
+
+    stopVisualInput();
+
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    await video.play().catch(() => undefined);
+    visualCaptureVideoRef.current = video;
+    if (!visualCanvasRef.current) visualCanvasRef.current = document.createElement('canvas');
+
+    // The browser's own "Stop sharing" button ends the track.
+    stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+      if (visualCaptureVideoRef.current === video) stopVisualInput();
+    });
+
+    visualFrameTimerRef.current = window.setInterval(() => {
+      if (!liveSessionOpenRef.current || !visualCanvasRef.current) return;
+      const frame = captureVideoFrame(video, visualCanvasRef.current);
+      if (!frame) return;
+      sessionPromiseRef.current?.then((session) => {
+        session.sendRealtimeInput({ video: frame });
+      });
+    }, VIDEO_FRAME_INTERVAL_MS);
+
+    if (source === 'camera') {
+      setCameraFacing(facing);
+      navigator.mediaDevices.enumerateDevices().then((devices) => {
+        setHasMultipleCameras(devices.filter((d) => d.kind === 'videoinput').length > 1);
+      });
+    }
+    setVisualStream(stream);
+    setVisualSource(source);
+  }, [addToast, stopVisualInput]);
+
+  useEffect(() => {
+    if (visualPreviewRef.current) visualPreviewRef.current.srcObject = visualStream;
+  }, [visualStream, activeTab]);
+
   const stopConversation = useCallback(async () => {
     if (streamRef.current) {
       streamRef.current.getTracks().forEach((track) => track.stop());
       streamRef.current = null;
     }
 
-    if (sessionPromiseRef.current) {
-      const session = await sessionPromiseRef.current;
-      session.close();
-      sessionPromiseRef.current = null;
+    liveStoppingRef.current = true;
+    liveSessionOpenRef.current = false;
+    resumptionHandleRef.current = null;
+    liveToolAbortRef.current?.abort();
+    liveToolAbortRef.current = null;
+    pendingToolResponsesRef.current = [];
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+
+    const sessionPromise = sessionPromiseRef.current;
+    sessionPromiseRef.current = null;
+    if (sessionPromise) {
+      try {
+        const session = await sessionPromise;
+        session.close();
+      } catch {
+        // The session never opened; nothing to close.
+      }
     }
 
+    commitLiveTurn();
     stopVisualizer();
+    stopVisualInput();
+    finishSessionRecording();
 
     inputGainNodeRef.current?.disconnect();
-    scriptProcessorRef.current?.disconnect();
+    micChainRef.current?.disconnect();
+    micChainRef.current = null;
+    if (captureNodeRef.current) captureNodeRef.current.port.onmessage = null;
+    captureNodeRef.current?.disconnect();
     mediaStreamSourceRef.current?.disconnect();
     analyserRef.current?.disconnect();
+    if (playbackNodeRef.current) playbackNodeRef.current.port.onmessage = null;
+    playbackNodeRef.current?.disconnect();
+    playbackGainRef.current?.disconnect();
     inputAudioContextRef.current?.close();
     outputAudioContextRef.current?.close();
 
-    scriptProcessorRef.current = null;
+    captureNodeRef.current = null;
+    playbackNodeRef.current = null;
+    playbackGainRef.current = null;
     mediaStreamSourceRef.current = null;
     analyserRef.current = null;
     inputAudioContextRef.current = null;
@@ -1597,15 +4905,21 @@ const App: React.FC = () => {
 
     interruptAndClearAudioQueue();
 
+    liveSessionStartRef.current = null;
+    liveUsageRef.current = { totalTokens: 0, contextTokens: 0 };
+    liveUsedVideoRef.current = false;
+    liveWarnedRef.current = null;
+    setLiveLimitWarning(null);
+
     vadStateRef.current = 'SILENCE';
-    speechConsecutiveBuffersRef.current = 0;
-    silenceConsecutiveBuffersRef.current = 0;
+    pushToTalkActiveRef.current = false;
+    setIsPushToTalkActive(false);
     setConnectionState('idle');
     setIsSpeaking(false);
     isSpeakingRef.current = false;
     setCurrentTurn([]);
     setIsMuted(false);
-  }, [stopVisualizer, interruptAndClearAudioQueue]);
+  }, [commitLiveTurn, stopVisualizer, stopVisualInput, interruptAndClearAudioQueue, finishSessionRecording]);
 
   useEffect(() => {
     return () => {
@@ -1613,27 +4927,82 @@ const App: React.FC = () => {
     };
   }, [stopConversation]);
 
+  // Stops the session and leaves a summary card behind instead of ending silently.
+  const endConversation = useCallback(async (reason: LiveEndReason) => {
+    const startedAt = liveSessionStartRef.current;
+    const { totalTokens, contextTokens } = liveUsageRef.current;
+    await stopConversation();
+    if (startedAt !== null) {
+      setLiveSummary({ reason, startedAt, elapsedMs: Date.now() - startedAt, totalTokens, contextTokens });
+    }
+  }, [stopConversation]);
+
+  useEffect(() => {
+    if (connectionState !== 'connected' && connectionState !== 'reconnecting') return;
+
+    // Only a new message re-renders; the meter shows the countdown itself.
+    const warn = (message: string) => {
+      if (liveWarnedRef.current === message) return;
+      if (liveWarnedRef.current === null) addToast(message, "info");
+      liveWarnedRef.current = message;
+      setLiveLimitWarning(message);
+    };
+
+    const tick = () => {
+      const startedAt = liveSessionStartRef.current;
+      if (startedAt === null) return;
+      const elapsedMs = Date.now() - startedAt;
+      const { contextTokens } = liveUsageRef.current;
+
+      // The server applies the shorter video limit once any frame has been sent.
+      if (visualSource) liveUsedVideoRef.current = true;
+      const limit = liveSessionLimitMs(liveUsedVideoRef.current, liveCompression);
+      if (limit !== null) {
+        const remainingMs = limit - LIVE_LIMIT_MARGIN_MS - elapsedMs;
+        if (remainingMs <= 0) {
+          endConversation('time-limit');
+          return;
+        }
+        if (remainingMs <= LIVE_LIMIT_WARNING_MS) {
+          warn('Less than a minute left in this session. Turn on context compression in Settings for longer sessions.');
+          return;
+        }
+      }
+      if (!liveCompression) {
+        if (contextTokens >= LIVE_CONTEXT_WINDOW_TOKENS * LIVE_CONTEXT_END_RATIO) {
+          endConversation('context-limit');
+          return;
+        }
+        if (contextTokens >= LIVE_CONTEXT_WINDOW_TOKENS * LIVE_CONTEXT_WARNING_RATIO) {
+          warn('Conversation memory is almost full. The session will end soon.');
+        }
+      }
+    };
+
+    tick();
+    const timer = window.setInterval(tick, 1000);
+    return () => window.clearInterval(timer);
+  }, [connectionState, visualSource, liveCompression, endConversation, addToast]);
+
   const startConversation = useCallback(async () => {
     // Validate Key first
     if (!(await validateApiKey())) return;
     
     setError(null);
-    setTranscript([]);
     setCurrentTurn([]);
+    setSessionRecording(null);
+    setLiveSummary(null);
     setConnectionState('connecting');
     setIsMuted(false);
+    liveStoppingRef.current = false;
+    reconnectAttemptRef.current = 0;
+    resumptionHandleRef.current = null;
+    liveToolAbortRef.current = new AbortController();
+    pendingToolResponsesRef.current = [];
 
     try {
-      const activeKey = getEffectiveApiKey();
-      if (!activeKey) {
-        throw new Error('No API Key available.');
-      }
-      const ai = new GoogleGenAI({ apiKey: activeKey });
-
       streamRef.current = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          deviceId: selectedDeviceId === 'default' ? undefined : { exact: selectedDeviceId },
-        },
+        audio: micConstraints(selectedDeviceId, micProcessing, micProcessingBypassed),
       });
 
       if (audioDevices.length === 0) {
@@ -1644,219 +5013,327 @@ const App: React.FC = () => {
         setAudioDevices(audioInputDevices);
       }
 
-      const AudioContextClass =
-        window.AudioContext || (window as any).webkitAudioContext;
-      inputAudioContextRef.current = new AudioContextClass({
-        sampleRate: 16000,
-      });
-      outputAudioContextRef.current = new AudioContextClass({
-        sampleRate: 24000,
-      });
+      const AudioContextClass =
+        window.AudioContext || (window as any).webkitAudioContext;
+      // Capture at the device's native rate; the worklet resamples to 16 kHz.
+      inputAudioContextRef.current = new AudioContextClass();
+      outputAudioContextRef.current = new AudioContextClass({
+        sampleRate: PLAYBACK_SAMPLE_RATE,
+      });
+      await applyOutputDevice(outputAudioContextRef.current, selectedOutputId);
+      const captureNode = await createCaptureNode(inputAudioContextRef.current);
+
+      const playbackNode = await createPlaybackNode(outputAudioContextRef.current, playbackSettings);
+      const playbackGain = outputAudioContextRef.current.createGain();
+      playbackGain.gain.value = playbackSettings.volume;
+      playbackNode.connect(playbackGain);
+      playbackGain.connect(outputAudioContextRef.current.destination);
+      clearsInFlightRef.current = 0;
+      commitAfterClearRef.current = false;
+      playbackNode.port.onmessage = (event: MessageEvent<{ type: string; dropped?: number }>) => {
+        if (event.data.type === 'started') markRecordingTurn('model');
+        if (event.data.type === 'cleared') {
+          trimModelClip(event.data.dropped ?? 0);
+          clearsInFlightRef.current = Math.max(0, clearsInFlightRef.current - 1);
+          if (clearsInFlightRef.current === 0 && commitAfterClearRef.current) {
+            commitAfterClearRef.current = false;
+            commitLiveTurn();
+          }
+        }
+      };
+      playbackNodeRef.current = playbackNode;
+      playbackGainRef.current = playbackGain;
+
+      if (recordSession) {
+        try {
+          const outputCtx = outputAudioContextRef.current;
+          const recorder = await createCaptureNode(outputCtx, RECORDING_SAMPLE_RATE);
+          const mix = outputCtx.createGain();
+          const micSource = outputCtx.createMediaStreamSource(streamRef.current);
+          micSource.connect(mix);
+          playbackNode.connect(mix);
+          mix.connect(recorder);
+
+          recordingChunksRef.current = [];
+          recordingMarkersRef.current = [];
+          lastRecordedSpeakerRef.current = null;
+          recordingStartTimeRef.current = outputCtx.currentTime;
+          recorder.port.onmessage = (event: MessageEvent<CaptureFrame>) => {
+            recordingChunksRef.current.push(floatToInt16(event.data.samples));
+          };
+
+          recorderNodeRef.current = recorder;
+          recordingMixRef.current = mix;
+          recordingMicSourceRef.current = micSource;
+        } catch (err) {
+          console.error(err);
+          addToast("Recording is not supported in this browser", "error");
+        }
+      }
+
+      const source =
+        inputAudioContextRef.current.createMediaStreamSource(
+          streamRef.current,
+        );
+      mediaStreamSourceRef.current = source;
+      
+      const gainNode = inputAudioContextRef.current.createGain();
+      gainNode.gain.value = inputGain;
+      inputGainNodeRef.current = gainNode;
+
+      const analyser = inputAudioContextRef.current.createAnalyser();
+      analyser.fftSize = 256;
+      analyser.smoothingTimeConstant = 0.3;
+      analyserRef.current = analyser;
+      
+      captureNodeRef.current = captureNode;
+
+      const micChain = await createMicProcessingChain(inputAudioContextRef.current, micProcessing);
+      micChain.setBypassed(micProcessingBypassed);
+      micChainRef.current = micChain;
+
+      source.connect(gainNode);
+      gainNode.connect(micChain.input);
+      micChain.output.connect(analyser);
+      micChain.output.connect(captureNode);
+      
+      drawVisualizer();
+
+      const isPushToTalk = talkMode === 'push-to-talk';
+      const gateSilence = silenceGating && !isPushToTalk;
+      const vad = createVoiceActivityDetector(vadSensitivity, gateSilence);
+
+      captureNode.port.onmessage = (event: MessageEvent<CaptureFrame>) => {
+        const result = vad.process(event.data);
+        if (vad.state === 'SPEAKING' && vadStateRef.current !== 'SPEAKING') {
+          markRecordingTurn('user');
+          liveUserTurnStartRef.current ??= Date.now();
+        }
+        vadStateRef.current = vad.state;
+
+        // Audio captured while reconnecting is dropped rather than replayed late.
+        if (!liveSessionOpenRef.current) return;
+
+        if (isPushToTalk) {
+          if (!pushToTalkActiveRef.current) return;
+          appendUserClip(event.data.samples);
+          const pcmBlob = createBlob(event.data.samples);
+          sessionPromiseRef.current?.then((session) => {
+            session.sendRealtimeInput({ media: pcmBlob });
+          });
+          return;
+        }
+
+        const { frames, streamPaused } = result;
+        if (frames.length === 0 && !streamPaused) return;
+        // Without gating the mic streams constantly, so only keep audio once speech has started.
+        if (gateSilence || liveUserTurnStartRef.current !== null) {
+          frames.forEach(appendUserClip);
+        }
+
+        sessionPromiseRef.current?.then((session) => {
+          for (const samples of frames) {
+            session.sendRealtimeInput({ media: createBlob(samples) });
+          }
+          if (streamPaused) {
+            session.sendRealtimeInput({ audioStreamEnd: true });
+          }
+        });
+      };
+
+      // The graph above outlives individual sessions; a reconnect only swaps the socket.
+      let hasOpened = false;
+
+      const failConversation = (message: string) => {
+        setError(message);
+        addToast(message, "error");
+        endConversation('error').then(() => setConnectionState('error'));
+      };
+
+      const handleSessionLost = (lostSession: Promise<any>, reason: unknown) => {
+        // Ignore sessions we replaced or closed on purpose.
+        if (liveStoppingRef.current || sessionPromiseRef.current !== lostSession) return;
+        sessionPromiseRef.current = null;
+        liveSessionOpenRef.current = false;
+        pushToTalkActiveRef.current = false;
+        setIsPushToTalkActive(false);
+        if (reason) console.error(reason);
+
+        if (!hasOpened) {
+          failConversation('An error occurred during the conversation.');
+          return;
+        }
+
+        commitLiveTurn();
+        const attempt = reconnectAttemptRef.current++;
+        if (attempt >= LIVE_RECONNECT_MAX_ATTEMPTS) {
+          failConversation('Connection lost. Please start the conversation again.');
+          return;
+        }
 
-      sessionPromiseRef.current = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceGender === 'female' ? 'Zephyr' : 'Puck' } },
-          },
-          tools: [{ functionDeclarations: [renderImageTool] }],
-          systemInstruction:
-            'You are Zansti Sardam AI Chatbot, an intelligent assistant powered by Chya Luqman. You are helpful and friendly. Your primary languages are Kurdish Sorani, English, and Arabic. Always detect the language of the user and respond in that same language. You can generate images if the user asks.',
-        },
-        callbacks: {
-          onopen: () => {
-            setConnectionState('connected');
-            addToast("Connected to Live Audio", "success");
-            const source =
-              inputAudioContextRef.current!.createMediaStreamSource(
-                streamRef.current!,
-              );
-            mediaStreamSourceRef.current = source;
-            
-            const gainNode = inputAudioContextRef.current!.createGain();
-            gainNode.gain.value = inputGain;
-            inputGainNodeRef.current = gainNode;
-
-            const analyser = inputAudioContextRef.current!.createAnalyser();
-            analyser.fftSize = 256;
-            analyser.smoothingTimeConstant = 0.3;
-            analyserRef.current = analyser;
-            
-            const scriptProcessor =
-              inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-            scriptProcessorRef.current = scriptProcessor;
-
-            source.connect(gainNode);
-            gainNode.connect(analyser);
-            gainNode.connect(scriptProcessor);
-            scriptProcessor.connect(
-              inputAudioContextRef.current!.destination,
-            );
-            
-            drawVisualizer();
+        setConnectionState('reconnecting');
+        const delay =
+          Math.min(LIVE_RECONNECT_BASE_DELAY_MS * 2 ** attempt, LIVE_RECONNECT_MAX_DELAY_MS) +
+          Math.random() * 500;
+        reconnectTimerRef.current = window.setTimeout(() => {
+          reconnectTimerRef.current = null;
+          if (liveStoppingRef.current) return;
+          try {
+            openSession();
+          } catch (err) {
+            failConversation(err instanceof Error ? err.message : 'Failed to reconnect.');
+          }
+        }, delay);
+      };
 
-            scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-              const inputData =
-                audioProcessingEvent.inputBuffer.getChannelData(0);
-              
-              const thresholds = VAD_THRESHOLDS[vadSensitivity];
+      const openSession = () => {
+        const activeKey = getEffectiveApiKey();
+        if (!activeKey) {
+          throw new Error('No API Key available.');
+        }
+        const ai = new GoogleGenAI({ apiKey: activeKey });
+
+        const sessionPromise: Promise<any> = ai.live.connect({
+          model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+          config: {
+            responseModalities: [Modality.AUDIO],
+            inputAudioTranscription: {},
+            outputAudioTranscription: {},
+            speechConfig: {
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: voicePreferences.live[voicePreferences.liveLanguage] } },
+            },
+            tools: CLIENT_TOOLS,
+            ...(talkMode === 'push-to-talk' && {
+              realtimeInputConfig: { automaticActivityDetection: { disabled: true } },
+            }),
+            ...(liveCompression && {
+              contextWindowCompression: {
+                triggerTokens: String(LIVE_COMPRESSION_TRIGGER_TOKENS),
+                slidingWindow: { targetTokens: String(LIVE_COMPRESSION_TARGET_TOKENS) },
+              },
+            }),
+            // Resume the server-side context when we have a handle from an earlier connection.
+            sessionResumption: { handle: resumptionHandleRef.current ?? undefined },
+            systemInstruction:
+              'You are Zansti Sardam AI Chatbot, an intelligent assistant powered by Chya Luqman. You are helpful and friendly. Your primary languages are Kurdish Sorani, English, and Arabic. Always detect the language of the user and respond in that same language. You can generate and edit images, translate text, start video generation and read Kurdish aloud with your tools when the user asks. If the user shares their camera or screen, use what you see to help them, for example with homework or documents.',
+          },
+          callbacks: {
+            onopen: () => {
+              if (sessionPromiseRef.current !== sessionPromise) return;
+              liveSessionOpenRef.current = true;
+              liveSessionStartRef.current ??= Date.now();
+              setConnectionState('connected');
+              addToast(hasOpened ? "Reconnected" : "Connected to Live Audio", "success");
+              hasOpened = true;
+              if (pendingToolResponsesRef.current.length > 0) {
+                const functionResponses = pendingToolResponsesRef.current;
+                pendingToolResponsesRef.current = [];
+                sessionPromise.then((session) => session.sendToolResponse({ functionResponses }));
+              }
+            },
+            onmessage: async (message: LiveServerMessage) => {
+              if (sessionPromiseRef.current !== sessionPromise) return;
+              reconnectAttemptRef.current = 0;
+
+              if (message.usageMetadata) {
+                const usage = liveUsageRef.current;
+                usage.totalTokens += message.usageMetadata.totalTokenCount ?? 0;
+                usage.contextTokens = message.usageMetadata.promptTokenCount ?? usage.contextTokens;
+              }
 
-              let sumOfSquares = 0.0;
-              for (const sample of inputData) {
-                sumOfSquares += sample * sample;
+              if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+                resumptionHandleRef.current = message.sessionResumptionUpdate.newHandle;
               }
-              const rms = Math.sqrt(sumOfSquares / inputData.length);
 
-              let zeroCrossings = 0;
-              for (let i = 1; i < inputData.length; i++) {
-                if (Math.sign(inputData[i]) !== Math.sign(inputData[i - 1])) {
-                  zeroCrossings++;
+              if (message.goAway) {
+                // The server is about to drop this connection; move to a new one while the handle is valid.
+                liveSessionOpenRef.current = false;
+                sessionPromiseRef.current = null;
+                setConnectionState('reconnecting');
+                sessionPromise.then((session) => session.close());
+                commitLiveTurn();
+                try {
+                  openSession();
+                } catch (err) {
+                  failConversation(err instanceof Error ? err.message : 'Failed to reconnect.');
                 }
+                return;
               }
 
-              const isPotentiallySpeaking = rms > thresholds.rms && zeroCrossings > thresholds.zcr;
+              let hasTranscriptionUpdate = false;
+              if (message.serverContent?.outputTranscription) {
+                currentOutputTranscriptionRef.current +=
+                  message.serverContent.outputTranscription.text;
+                hasTranscriptionUpdate = true;
+              } else if (message.serverContent?.inputTranscription) {
+                currentInputTranscriptionRef.current +=
+                  message.serverContent.inputTranscription.text;
+                hasTranscriptionUpdate = true;
+              }
 
-              if (isPotentiallySpeaking) {
-                speechConsecutiveBuffersRef.current++;
-                silenceConsecutiveBuffersRef.current = 0;
-                if (speechConsecutiveBuffersRef.current >= thresholds.speechBuffers) {
-                  vadStateRef.current = 'SPEAKING';
+              if (hasTranscriptionUpdate) {
+                const newCurrentTurn: ConversationTurn[] = [];
+                const currentInput = currentInputTranscriptionRef.current.trim();
+                const currentOutput =
+                  currentOutputTranscriptionRef.current.trim();
+                if (currentInput) {
+                  newCurrentTurn.push({ speaker: 'user', text: currentInput });
                 }
-              } else {
-                silenceConsecutiveBuffersRef.current++;
-                speechConsecutiveBuffersRef.current = 0;
-                if (silenceConsecutiveBuffersRef.current >= thresholds.silenceBuffers) {
-                  vadStateRef.current = 'SILENCE';
+                if (currentOutput) {
+                  newCurrentTurn.push({ speaker: 'model', text: currentOutput });
                 }
+                setCurrentTurn(newCurrentTurn);
               }
 
-              const pcmBlob = createBlob(inputData);
-              sessionPromiseRef.current?.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            let hasTranscriptionUpdate = false;
-            if (message.serverContent?.outputTranscription) {
-              currentOutputTranscriptionRef.current +=
-                message.serverContent.outputTranscription.text;
-              hasTranscriptionUpdate = true;
-            } else if (message.serverContent?.inputTranscription) {
-              currentInputTranscriptionRef.current +=
-                message.serverContent.inputTranscription.text;
-              hasTranscriptionUpdate = true;
-            }
-
-            if (hasTranscriptionUpdate) {
-              const newCurrentTurn: ConversationTurn[] = [];
-              const currentInput = currentInputTranscriptionRef.current.trim();
-              const currentOutput =
-                currentOutputTranscriptionRef.current.trim();
-              if (currentInput) {
-                newCurrentTurn.push({ speaker: 'user', text: currentInput });
-              }
-              if (currentOutput) {
-                newCurrentTurn.push({ speaker: 'model', text: currentOutput });
+              // Interruptions are handled first so the trim applies to the interrupted turn's clip.
+              if (message.serverContent?.interrupted) {
+                interruptAndClearAudioQueue();
               }
-              setCurrentTurn(newCurrentTurn);
-            }
-
-            if (message.serverContent?.turnComplete) {
-              const fullInput = currentInputTranscriptionRef.current.trim();
-              const fullOutput = currentOutputTranscriptionRef.current.trim();
-
-              setTranscript((prev) => {
-                const newTranscript = [...prev];
-                if (fullInput)
-                  newTranscript.push({ speaker: 'user', text: fullInput });
-                if (fullOutput)
-                  newTranscript.push({ speaker: 'model', text: fullOutput });
-                return newTranscript;
-              });
 
-              setCurrentTurn([]);
-              currentInputTranscriptionRef.current = '';
-              currentOutputTranscriptionRef.current = '';
-            }
+              if (message.serverContent?.turnComplete) {
+                if (clearsInFlightRef.current > 0) commitAfterClearRef.current = true;
+                else commitLiveTurn();
+                playbackNodeRef.current?.port.postMessage({ type: 'flush' });
+              }
 
-            if (message.toolCall) {
-              const functionCalls = message.toolCall.functionCalls;
+              const functionCalls = message.toolCall?.functionCalls;
               if (functionCalls && functionCalls.length > 0) {
-                const responses = [];
-                for (const fc of functionCalls) {
-                  if (fc.name === 'render_image') {
-                    const args = fc.args as any;
-                    const prompt = args.prompt;
-                    const turnId = fc.id;
-
-                    setTranscript((prev) => [
-                      ...prev,
-                      {
-                        speaker: 'model',
-                        text: `Generating image: ${prompt}`,
-                        isLoading: true,
-                        id: turnId,
-                      },
-                    ]);
-
-                    const base64Image = await generateImage(prompt);
-                    
-                    setTranscript((prev) =>
-                      prev.map((t) =>
-                        t.id === turnId
-                          ? {
-                              speaker: 'model',
-                              text: base64Image ? prompt : `Failed to generate image for: ${prompt}`,
-                              image: base64Image || undefined,
-                              isLoading: false,
-                              id: turnId,
-                            }
-                          : t
-                      )
-                    );
-                    
-                    responses.push({
-                      id: fc.id,
-                      name: fc.name,
-                      response: { result: { success: !!base64Image } },
-                    });
-                  }
+                let functionResponses: FunctionResponse[];
+                try {
+                  functionResponses = await runClientToolCalls(functionCalls, liveToolAbortRef.current?.signal);
+                } catch (e) {
+                  // Cancelled because the session ended.
+                  if (!(classifyGeminiError(e) instanceof CancelledError)) console.error(e);
+                  return;
                 }
-                
-                if (responses.length > 0) {
-                  sessionPromiseRef.current?.then((session) => {
-                    session.sendToolResponse({ functionResponses: responses });
-                  });
+                // Answer the session that is open now, which may have replaced the one that asked.
+                const currentSession = sessionPromiseRef.current;
+                if (currentSession && liveSessionOpenRef.current) {
+                  currentSession.then((session) => session.sendToolResponse({ functionResponses }));
+                } else if (!liveStoppingRef.current) {
+                  pendingToolResponsesRef.current.push(...functionResponses);
                 }
               }
-            }
 
-            const base64Audio =
-              message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio) {
-              await playAudioChunk(base64Audio);
-            }
-            
-            if (message.serverContent?.interrupted) {
-              interruptAndClearAudioQueue();
-            }
-          },
-          onclose: () => {
-            stopConversation();
-          },
-          onerror: (e) => {
-            setError('An error occurred during the conversation.');
-            console.error(e);
-            stopConversation();
-            setConnectionState('error');
-            addToast("Connection Error", "error");
+              const base64Audio =
+                message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
+              if (base64Audio) {
+                playAudioChunk(base64Audio);
+              }
+            },
+            onclose: (e: CloseEvent) => {
+              handleSessionLost(sessionPromise, e.code === 1000 ? null : e);
+            },
+            onerror: (e) => {
+              handleSessionLost(sessionPromise, e);
+            },
           },
-        },
-      });
+        });
+        sessionPromiseRef.current = sessionPromise;
+        sessionPromise.catch((err) => handleSessionLost(sessionPromise, err));
+      };
+
+      openSession();
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : 'An unknown error occurred.';
@@ -1866,17 +5343,19 @@ const App: React.FC = () => {
       addToast(`Failed to connect: ${errorMessage}`, "error");
       await stopConversation();
     }
-  }, [drawVisualizer, stopConversation, selectedDeviceId, inputGain, audioDevices, vadSensitivity, playAudioChunk, interruptAndClearAudioQueue, generateImage, addToast, validateApiKey, voiceGender, getEffectiveApiKey]);
+  }, [drawVisualizer, stopConversation, endConversation, liveCompression, selectedDeviceId, inputGain, micProcessing, micProcessingBypassed, audioDevices, vadSensitivity, silenceGating, talkMode, recordSession, playbackSettings, markRecordingTurn, trimModelClip, appendUserClip, commitLiveTurn, playAudioChunk, interruptAndClearAudioQueue, runClientToolCalls, addToast, validateApiKey, voicePreferences, selectedOutputId, getEffectiveApiKey]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
         const file = e.target.files[0];
         const preview = URL.createObjectURL(file);
+        if (attachment) URL.revokeObjectURL(attachment.preview);
         setAttachment({ file, preview });
     }
   };
 
   const handleRemoveAttachment = () => {
+    if (attachment) URL.revokeObjectURL(attachment.preview);
     setAttachment(null);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
@@ -1896,6 +5375,69 @@ const App: React.FC = () => {
       }));
   };
 
+  const sendLiveTextMessage = async (text: string, currentAttachment: { file: File, preview: string } | null) => {
+    setTextInput('');
+    setAttachment(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    // The sent preview now belongs to the conversation and is revoked with it.
+    if (currentAttachment) conversationMediaUrlsRef.current.push(currentAttachment.preview);
+
+    setTranscript((prev) => [...prev, {
+        speaker: 'user',
+        text: text,
+        image: currentAttachment?.preview
+    }]);
+    markRecordingTurn('user');
+
+    try {
+      const parts: any[] = [];
+      if (text) parts.push({ text });
+      if (currentAttachment) parts.push({ inlineData: await imageFileToLiveFrame(currentAttachment.file) });
+
+      const session = await sessionPromiseRef.current;
+      if (!session) throw new Error('The live session is reconnecting.');
+      session.sendClientContent({ turns: [{ role: 'user', parts }], turnComplete: true });
+    } catch (error) {
+      console.error('Live text message error:', error);
+      addToast(`Could not send message: ${error instanceof Error ? error.message : 'Unknown error'}`, "error");
+    }
+  };
+
+  // Returns the history to send plus a summary of anything too old to fit.
+  const buildChatHistory = async (history: ConversationTurn[], signal: AbortSignal) => {
+    const turns = history.filter(isChatHistoryTurn);
+    const { older, recent } = splitChatHistory(turns, CHAT_HISTORY_TOKEN_BUDGET);
+    let memory = chatMemoryRef.current;
+    // An edit or version switch before the boundary invalidates the summary.
+    const boundary = memory ? turns[memory.throughCount - 1] : undefined;
+    if (memory && (!boundary || chatMemoryKey(boundary) !== memory.throughKey)) memory = null;
+
+    const covered = memory?.throughCount ?? 0;
+    if (older.length > covered) {
+      // Only the turns that dropped out since the last summary need folding in.
+      const pending = older.slice(covered);
+      try {
+        const response = await retryWithBackoff(async (activeKey) => {
+          const ai = new GoogleGenAI({ apiKey: activeKey });
+          return await scheduleGeminiRequest({ model: 'gemini-2.5-flash', label: 'Chat memory', feature: 'chat', priority: 'interactive', apiKey: activeKey, signal }, () => ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: `Update the running summary of a conversation with the new turns below. Keep names, facts, decisions, requests and the language used; stay under 200 words.\n\nCurrent summary:\n${memory?.summary || '(none)'}\n\nNew turns:\n${formatTurnsForSummary(pending)}`,
+            config: { abortSignal: signal },
+          }));
+        }, 3, 2000, undefined, getEffectiveApiKey, signal);
+        memory = { summary: (response.text ?? '').trim(), throughCount: older.length, throughKey: chatMemoryKey(older[older.length - 1]) };
+        chatMemoryRef.current = memory;
+      } catch (e) {
+        const error = classifyGeminiError(e);
+        if (error instanceof CancelledError) throw error;
+        // Fall back to plain trimming: the oldest turns are simply not sent.
+        console.warn('Chat memory summary failed', e);
+      }
+    }
+
+    return { contents: await turnsToContents(recent), summary: older.length > 0 ? memory?.summary : undefined };
+  };
+
   const handleTextMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     const currentAttachment = attachment;
@@ -1905,106 +5447,169 @@ const App: React.FC = () => {
     
     if ((!text && !currentAttachment) || isProcessingText) return;
 
+    // While a Live session is open, typed turns join that conversation instead of a separate chat call.
+    if (liveSessionOpenRef.current) {
+      await sendLiveTextMessage(text, currentAttachment);
+      return;
+    }
+
     setTextInput('');
     setAttachment(null); 
     if(fileInputRef.current) fileInputRef.current.value = '';
-    setIsProcessingText(true);
-
-    setTranscript((prev) => [...prev, { 
-        speaker: 'user', 
-        text: text,
-        image: currentAttachment?.preview 
-    }]);
+    if (currentAttachment) conversationMediaUrlsRef.current.push(currentAttachment.preview);
 
-    try {
-      const activeKey = getEffectiveApiKey();
-      if (!activeKey) throw new Error("No API Key");
-      const ai = new GoogleGenAI({ apiKey: activeKey });
-      
-      const parts: any[] = [];
-      if (text) parts.push({ text });
-      
-      if (currentAttachment) {
-         const base64 = await new Promise<string>((resolve) => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-            reader.readAsDataURL(currentAttachment.file);
-         });
-         
-         parts.push({
-             inlineData: {
-                 data: base64,
-                 mimeType: currentAttachment.file.type
-             }
-         });
-      }
+    const prompt: ConversationTurn = { speaker: 'user', text, image: currentAttachment?.preview };
+    const history = transcript;
+    setTranscript((prev) => [...prev, prompt]);
+    await requestChatReply(history, prompt);
+  };
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts },
-        config: {
-          tools: [{ functionDeclarations: [renderImageTool] }],
-          systemInstruction:
-            'You are Zansti Sardam AI Chatbot, an intelligent assistant powered by Chya Luqman. Your primary languages are Kurdish Sorani, English, and Arabic. Always respond in the same language as the user. If the user provides an image, analyze it in the language of their prompt. If the user asks to generate an image, use the render_image tool.',
-        },
-      });
+  // Streams the model's answer to `prompt`, running any tools it calls. `history` is
+  // everything before the prompt; `fork` files the answer as a new version of a reply,
+  // streaming into the `placeholderId` turn that holds the versions meanwhile.
+  const requestChatReply = async (history: ConversationTurn[], prompt: ConversationTurn, fork?: ChatFork, placeholderId?: string) => {
+    setIsProcessingText(true);
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    const signal = controller.signal;
 
-      const functionCalls = response.functionCalls;
-      if (functionCalls && functionCalls.length > 0) {
-        const call = functionCalls[0];
-        if (call.name === 'render_image') {
-          const args = call.args as any;
-          const prompt = args.prompt;
-          const loadingId = Date.now().toString();
+    // The bubble currently receiving text; it keeps its partial text if the user stops.
+    let activeReplyId: string | null = null;
 
-          setTranscript((prev) => [
-            ...prev,
-            {
-              speaker: 'model',
-              text: `Generating image: ${prompt}`,
-              isLoading: true,
-              id: loadingId,
-            },
-          ]);
-
-          const base64Image = await generateImage(prompt);
-
-          setTranscript((prev) =>
-            prev.map((t) =>
-              t.id === loadingId
-                ? {
-                    speaker: 'model',
-                    text: base64Image
-                      ? prompt
-                      : `Failed to generate image for: ${prompt}`,
-                    image: base64Image || undefined,
-                    isLoading: false,
-                    id: loadingId,
-                  }
-                : t
-            )
-          );
-        }
-      } else if (response.text) {
-        setTranscript((prev) => [
-          ...prev,
-          { speaker: 'model', text: response.text },
-        ]);
+    try {
+      const parts: Part[] = [];
+      if (prompt.text) parts.push({ text: prompt.text });
+      if (prompt.image) parts.push({ inlineData: await urlToBase64(prompt.image) });
+
+      const { contents, summary } = await buildChatHistory(history, signal);
+      const lastContent = contents[contents.length - 1];
+      if (lastContent?.role === 'user') lastContent.parts!.push(...parts);
+      else contents.push({ role: 'user', parts });
+      const systemInstruction =
+        'You are Zansti Sardam AI Chatbot, an intelligent assistant powered by Chya Luqman. Your primary languages are Kurdish Sorani, English, and Arabic. Always respond in the same language as the user. If the user provides an image, analyze it in the language of their prompt. Use your tools to generate or edit images, translate text, start video generation or read Kurdish aloud when the user asks.' +
+        (summary ? `\n\nSummary of the earlier conversation:\n${summary}` : '');
+      // Each round streams into its own bubble, created on the first text fragment.
+      let nextReplyId = placeholderId;
+      const streamReply = () => {
+        const replyId = nextReplyId ?? `reply-${Date.now()}`;
+        nextReplyId = undefined;
+        activeReplyId = null;
+        const toolRuns: Promise<FunctionResponse[]>[] = [];
+        // Retrying is only safe until text or a tool call has come through.
+        let started = false;
+        const reply = retryWithBackoff(async (activeKey) => {
+          const ai = new GoogleGenAI({ apiKey: activeKey });
+          return await scheduleGeminiRequest({ model: 'gemini-2.5-flash', label: 'Chat reply', feature: 'chat', priority: 'interactive', apiKey: activeKey, signal }, async () => {
+            const stream = await ai.models.generateContentStream({
+              model: 'gemini-2.5-flash',
+              contents,
+              config: {
+                abortSignal: signal,
+                tools: CLIENT_TOOLS,
+                systemInstruction,
+              },
+            });
+            return collectChatStream(
+              stream,
+              (textSoFar) => {
+                started = true;
+                activeReplyId = replyId;
+                setTranscript((prev) => prev.some((t) => t.id === replyId)
+                  ? prev.map((t) => (t.id === replyId ? { ...t, text: textSoFar, isLoading: false, isStreaming: true } : t))
+                  : [...prev, { speaker: 'model', text: textSoFar, isStreaming: true, id: replyId }]);
+              },
+              // Tools start as soon as their call arrives rather than after the stream ends.
+              (calls) => {
+                started = true;
+                const run = runClientToolCalls(calls, signal);
+                run.catch(() => {});
+                toolRuns.push(run);
+              },
+            );
+          });
+        }, 3, 2000, (attempt, delay) => {
+          addToast(`Server busy, retrying in ${Math.round(delay/1000)}s... (${attempt}/3)`, 'info');
+        }, getEffectiveApiKey, signal, () => !started);
+        return reply.finally(() => {
+          setTranscript((prev) => prev.map((t) => (t.id === replyId ? { ...t, isStreaming: false } : t)));
+        }).then(async (response) => {
+          activeReplyId = null;
+          return { response, functionResponses: (await Promise.all(toolRuns)).flat() };
+        });
+      };
+
+      let { response, functionResponses } = await streamReply();
+      // Every call in the reply has run; send the results back so the model can answer.
+      for (let round = 0; functionResponses.length > 0 && round < MAX_TOOL_ROUNDS; round++) {
+        contents.push(response.candidates[0].content);
+        contents.push({ role: 'user', parts: functionResponses.map((functionResponse) => ({ functionResponse })) });
+        ({ response, functionResponses } = await streamReply());
       }
     } catch (error) {
+      const classified = classifyGeminiError(error);
+      if (classified instanceof CancelledError) {
+        // Keep whatever was streamed; only say "cancelled" when nothing was mid-stream.
+        const stoppedId = activeReplyId;
+        setTranscript((prev) => stoppedId
+          ? prev.map((t) => (t.id === stoppedId ? { ...t, isStreaming: false, stopped: true } : t))
+          : [...prev, { speaker: 'model', text: 'Response cancelled.', cancelled: true }]);
+        return;
+      }
       console.error('Text message error:', error);
       setTranscript((prev) => [
         ...prev,
         {
           speaker: 'model',
-          text: 'Sorry, I encountered an error processing your request.',
+          text: `Sorry, I encountered an error processing your request. ${describeGeminiError(classified)}`,
         },
       ]);
     } finally {
+      if (fork) setTranscript((prev) => attachFork(prev, fork));
+      chatAbortRef.current = null;
       setIsProcessingText(false);
     }
   };
 
+  const canRewriteChat = () => !isProcessingText && !liveSessionOpenRef.current;
+
+  const handleResendEdit = async () => {
+    if (!editingTurn || !canRewriteChat()) return;
+    const original = transcript[editingTurn.index];
+    const text = editingTurn.text.trim();
+    if (text === (original.text ?? '') || (!text && !original.image)) {
+      setEditingTurn(null);
+      return;
+    }
+    if (!(await validateApiKey())) return;
+    setEditingTurn(null);
+
+    // The edited prompt becomes a new version of itself; the reply follows it.
+    const { head, fork } = forkTranscript(transcript, editingTurn.index);
+    const prompt: ConversationTurn = { speaker: 'user', text, image: original.image, branches: fork.branches, branchIndex: fork.branchIndex };
+    setTranscript([...head, prompt]);
+    await requestChatReply(head, prompt);
+  };
+
+  const handleRegenerate = async (index: number) => {
+    if (!canRewriteChat()) return;
+    // A reply can span several turns (tool results, follow-up rounds), so all of it is redone.
+    let promptIndex = index;
+    while (promptIndex >= 0 && transcript[promptIndex].speaker !== 'user') promptIndex--;
+    if (promptIndex < 0 || !(await validateApiKey())) return;
+
+    // Earlier versions ride on a placeholder reply so they stay in the transcript throughout.
+    const { head, fork } = forkTranscript(transcript, promptIndex + 1);
+    const placeholder: ConversationTurn = { speaker: 'model', isLoading: true, id: `reply-${Date.now()}`, branches: fork.branches, branchIndex: fork.branchIndex };
+    setTranscript([...head, placeholder]);
+    await requestChatReply(head.slice(0, promptIndex), head[promptIndex], fork, placeholder.id);
+  };
+
+  const handleSwitchVersion = (index: number, target: number) => {
+    if (!canRewriteChat()) return;
+    setEditingTurn(null);
+    setTranscript((prev) => switchBranch(prev, index, target));
+  };
+
   const handleExportChat = () => {
     if (transcript.length === 0) {
         addToast("No chat history to export", "info");
@@ -2014,7 +5619,8 @@ const App: React.FC = () => {
     const text = transcript.map(t => {
         const speaker = t.speaker === 'user' ? 'User' : 'AI';
         const content = t.text || (t.image ? '[Image]' : '');
-        return `${speaker}: ${content}`;
+        const voice = t.origin === 'voice' && t.startedAt ? ` [voice ${formatTurnTime(t.startedAt)}]` : '';
+        return `${speaker}${voice}: ${content}`;
     }).join('\n\n');
     
     const blob = new Blob([text], { type: 'text/plain' });
@@ -2029,14 +5635,185 @@ const App: React.FC = () => {
     addToast("Chat history exported", "success");
   };
 
-  const handleClearChat = () => {
-    setTranscript([]);
+  const setActiveConversation = (id: string | null) => {
+    activeConversationRef.current = id;
+    setActiveConversationId(id);
+    if (id) localStorage.setItem(ACTIVE_CONVERSATION_STORAGE_KEY, id);
+    else localStorage.removeItem(ACTIVE_CONVERSATION_STORAGE_KEY);
+  };
+
+  const updateConversationMeta = (meta: ConversationMeta) => {
+    setConversations((prev) => sortConversations(prev.map((c) => (c.id === meta.id ? meta : c))));
+    putConversationMeta(meta).catch((e) => console.warn('Failed to update conversation', e));
+  };
+
+  const nameConversation = async (id: string, turns: ConversationTurn[]) => {
+    if (titlingConversationsRef.current.has(id)) return;
+    titlingConversationsRef.current.add(id);
+    let title = fallbackConversationTitle(turns);
+    if (getEffectiveApiKey()) {
+      try {
+        const response = await retryWithBackoff(async (activeKey) => {
+          const ai = new GoogleGenAI({ apiKey: activeKey });
+          return await scheduleGeminiRequest({ model: 'gemini-2.5-flash', label: 'Conversation title', feature: 'chat', priority: 'background', apiKey: activeKey }, () => ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: `Write a title of at most six words for this conversation, in the language it is written in. Reply with the title only.\n\n${formatTurnsForSummary(turns.filter(isChatHistoryTurn).slice(0, 4)).slice(0, 4000)}`,
+          }));
+        }, 3, 2000, undefined, getEffectiveApiKey);
+        title = cleanConversationTitle(response.text) || title;
+      } catch (e) {
+        console.warn('Conversation title failed', e);
+      }
+    }
+    // Renamed or deleted while the title was being written.
+    const current = conversationsRef.current.find((c) => c.id === id);
+    if (current?.titleSource === 'pending') updateConversationMeta({ ...current, title, titleSource: 'auto' });
+  };
+
+  const persistConversation = async (turns: ConversationTurn[]) => {
+    const now = Date.now();
+    const existing = conversationsRef.current.find((c) => c.id === activeConversationRef.current);
+    const id = existing?.id ?? activeConversationRef.current ?? `chat-${now}`;
+    if (activeConversationRef.current !== id) setActiveConversation(id);
+    const meta: ConversationMeta = existing
+      ? { ...existing, updatedAt: now }
+      : { id, title: '', titleSource: 'pending', pinned: false, createdAt: now, updatedAt: now };
+    if (meta.titleSource === 'pending') meta.title = fallbackConversationTitle(turns);
+
+    savedTranscriptRef.current = turns;
+    conversationsRef.current = sortConversations([meta, ...conversationsRef.current.filter((c) => c.id !== id)]);
+    setConversations(conversationsRef.current);
+    try {
+      await saveConversation(meta, turns);
+    } catch (e) {
+      console.warn('Failed to save conversation', e);
+      addToast("Could not save this conversation", "error");
+      return;
+    }
+    if (meta.titleSource === 'pending' && turns.some((t) => t.speaker === 'model' && t.text && !t.isLoading && !t.cancelled)) {
+      nameConversation(id, turns);
+    }
+  };
+
+  // Saves shortly after the transcript settles; replies are saved once complete.
+  useEffect(() => {
+    if (!conversationsReady || isProcessingText || transcript === savedTranscriptRef.current) return;
+    if (transcript.length === 0 || transcript.some((t) => t.isStreaming)) return;
+    const timer = setTimeout(() => persistConversation(transcript), CONVERSATION_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [transcript, conversationsReady, isProcessingText]);
+
+  // Reopens the conversation that was active before the page was reloaded.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const list = await listConversations();
+        if (cancelled) return;
+        setConversations(list);
+        const lastId = localStorage.getItem(ACTIVE_CONVERSATION_STORAGE_KEY);
+        if (lastId && list.some((c) => c.id === lastId)) {
+          const { turns, mediaUrls } = await loadConversation(lastId);
+          if (cancelled) return;
+          conversationMediaUrlsRef.current = mediaUrls;
+          savedTranscriptRef.current = turns;
+          setTranscript(turns);
+          setActiveConversation(lastId);
+        }
+      } catch (e) {
+        console.warn('Failed to load saved conversations', e);
+      } finally {
+        if (!cancelled) setConversationsReady(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  // Conversations can only change hands when nothing is still writing into the transcript.
+  const canSwitchConversation = () => {
+    if (liveSessionOpenRef.current) {
+      addToast("End the voice session before switching conversations", "info");
+      return false;
+    }
+    if (isProcessingText) {
+      addToast("Wait for the reply to finish or stop it first", "info");
+      return false;
+    }
+    return true;
+  };
+
+  const resetChatView = () => {
+    transcript.forEach((turn) => {
+      if (turn.audioUrl) URL.revokeObjectURL(turn.audioUrl);
+    });
+    conversationMediaUrlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+    conversationMediaUrlsRef.current = [];
+    chatMemoryRef.current = null;
+    setEditingTurn(null);
     setCurrentTurn([]);
     setEditingImage(null);
     currentInputTranscriptionRef.current = '';
     currentOutputTranscriptionRef.current = '';
     interruptAndClearAudioQueue();
-    addToast("Chat cleared", "info");
+  };
+
+  // Opens a saved conversation, or a blank one when id is null.
+  const openConversation = async (id: string | null) => {
+    if (!canSwitchConversation()) return false;
+    if (transcript.length > 0 && transcript !== savedTranscriptRef.current) await persistConversation(transcript);
+
+    let loaded: { turns: ConversationTurn[]; mediaUrls: string[] } = { turns: [], mediaUrls: [] };
+    if (id) {
+      try {
+        loaded = await loadConversation(id);
+      } catch (e) {
+        console.warn('Failed to open conversation', e);
+        addToast("Could not open that conversation", "error");
+        return false;
+      }
+    }
+    resetChatView();
+    conversationMediaUrlsRef.current = loaded.mediaUrls;
+    savedTranscriptRef.current = loaded.turns;
+    setTranscript(loaded.turns);
+    setActiveConversation(id);
+    setIsConversationListOpen(false);
+    return true;
+  };
+
+  const handleNewConversation = async () => {
+    if (await openConversation(null)) addToast("Started a new conversation", "info");
+  };
+
+  const handleTogglePinConversation = (meta: ConversationMeta) => {
+    updateConversationMeta({ ...meta, pinned: !meta.pinned });
+  };
+
+  const handleRenameConversation = () => {
+    if (!renamingConversation) return;
+    const meta = conversations.find((c) => c.id === renamingConversation.id);
+    const title = renamingConversation.title.replace(/\s+/g, ' ').trim().slice(0, CONVERSATION_TITLE_MAX_LENGTH);
+    setRenamingConversation(null);
+    if (meta && title && title !== meta.title) updateConversationMeta({ ...meta, title, titleSource: 'user' });
+  };
+
+  const handleDeleteConversation = async (meta: ConversationMeta) => {
+    if (!window.confirm(`Delete "${meta.title}"? This cannot be undone.`)) return;
+    if (meta.id === activeConversationRef.current) {
+      if (!canSwitchConversation()) return;
+      resetChatView();
+      savedTranscriptRef.current = [];
+      setTranscript([]);
+      setActiveConversation(null);
+    }
+    setConversations((prev) => prev.filter((c) => c.id !== meta.id));
+    try {
+      await deleteConversation(meta.id);
+      addToast("Conversation deleted", "info");
+    } catch (e) {
+      console.warn('Failed to delete conversation', e);
+      addToast("Could not delete that conversation", "error");
+    }
   };
 
   const handleImagePageSubmit = async (e: React.FormEvent) => {
@@ -2051,9 +5828,12 @@ const App: React.FC = () => {
         finalPrompt = `${imageGenPrompt}, ${imageStyle} style`;
     }
     setImageGenPrompt('');
+
+    const controller = new AbortController();
+    imageGenAbortRef.current = controller;
     
     try {
-      const base64 = await generateImage(finalPrompt, imageModel, aspectRatio);
+      const base64 = await generateImage(finalPrompt, imageModel, aspectRatio, 'normal', controller.signal);
       if (base64) {
         setImageHistory(prev => [{
           id: Date.now().toString(),
@@ -2064,9 +5844,14 @@ const App: React.FC = () => {
         addToast("Image generated successfully", "success");
       }
     } catch (e) {
-      console.error("Image page generation error", e);
-      // Error handling already inside generateImage
+      if (e instanceof CancelledError) {
+        addToast("Image generation cancelled", "info");
+      } else {
+        console.error("Image page generation error", e);
+        // Error handling already inside generateImage
+      }
     } finally {
+      imageGenAbortRef.current = null;
       setIsGeneratingImagePage(false);
     }
   };
@@ -2082,33 +5867,414 @@ const App: React.FC = () => {
     await generateVideo(prompt);
   };
 
-  const handleToggleConversation = () => {
-    if (connectionState === 'idle' || connectionState === 'error') {
-      startConversation();
-    } else {
-      stopConversation();
+  const handleToggleConversation = () => {
+    if (connectionState === 'idle' || connectionState === 'error') {
+      startConversation();
+    } else {
+      endConversation('user');
+    }
+  };
+
+  const handleLiveCompressionChange = (enabled: boolean) => {
+    setLiveCompression(enabled);
+    localStorage.setItem(LIVE_COMPRESSION_STORAGE_KEY, String(enabled));
+  };
+
+  const summarizeLiveSession = async () => {
+    if (!liveSummary || liveSummary.isSummarizing) return;
+    const turns = transcript.filter((t) => t.origin === 'voice' && t.text && (t.startedAt ?? 0) >= liveSummary.startedAt);
+    if (turns.length === 0 || !(await validateApiKey())) return;
+
+    setLiveSummary((prev) => prev && { ...prev, isSummarizing: true });
+    try {
+      const conversation = turns.map((t) => `${t.speaker === 'user' ? 'User' : 'Assistant'}: ${t.text}`).join('\n');
+      const response = await retryWithBackoff(async (activeKey) => {
+        const ai = new GoogleGenAI({ apiKey: activeKey });
+        return await scheduleGeminiRequest({ model: 'gemini-2.5-flash', label: 'Session summary', feature: 'chat', priority: 'interactive', apiKey: activeKey }, () => ai.models.generateContent({
+          model: 'gemini-2.5-flash',
+          contents: `Summarize this voice conversation in a few short bullet points, written in the language the user spoke. Include any decisions, answers or follow-ups.\n\n${conversation}`,
+        }));
+      }, 3, 2000, (attempt, delay) => {
+        addToast(`Server busy, retrying in ${Math.round(delay/1000)}s... (${attempt}/3)`, 'info');
+      }, getEffectiveApiKey);
+      const summary = (response.text ?? '').trim();
+      setLiveSummary((prev) => prev && { ...prev, summary, isSummarizing: false });
+      setTranscript((prev) => [...prev, { speaker: 'model', text: `Voice session summary:\n${summary}` }]);
+    } catch (e) {
+      console.error("Session summary failed", e);
+      addToast(`Could not summarize the session. ${describeGeminiError(classifyGeminiError(e))}`, "error");
+      setLiveSummary((prev) => prev && { ...prev, isSummarizing: false });
+    }
+  };
+  
+  const handleTalkModeChange = (mode: TalkMode) => {
+    setTalkMode(mode);
+    localStorage.setItem(TALK_MODE_STORAGE_KEY, mode);
+  };
+
+  const beginPushToTalk = useCallback(() => {
+    if (pushToTalkActiveRef.current || connectionState !== 'connected') return;
+    pushToTalkActiveRef.current = true;
+    setIsPushToTalkActive(true);
+    markRecordingTurn('user');
+    liveUserTurnStartRef.current ??= Date.now();
+    // Pressing to talk is a barge-in: drop whatever the model is still saying.
+    interruptAndClearAudioQueue();
+    sessionPromiseRef.current?.then((session) => {
+      session.sendRealtimeInput({ activityStart: {} });
+    });
+  }, [connectionState, interruptAndClearAudioQueue, markRecordingTurn]);
+
+  const endPushToTalk = useCallback(() => {
+    if (!pushToTalkActiveRef.current) return;
+    pushToTalkActiveRef.current = false;
+    setIsPushToTalkActive(false);
+    sessionPromiseRef.current?.then((session) => {
+      session.sendRealtimeInput({ activityEnd: {} });
+    });
+  }, []);
+
+  // Spacebar push-to-talk on the Speak tab, ignored while typing in a field.
+  useEffect(() => {
+    if (activeTab !== 'speak' || talkMode !== 'push-to-talk' || connectionState !== 'connected') return;
+
+    const isTypingTarget = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) beginPushToTalk();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      e.preventDefault();
+      endPushToTalk();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', endPushToTalk);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', endPushToTalk);
+      endPushToTalk();
+    };
+  }, [activeTab, talkMode, connectionState, beginPushToTalk, endPushToTalk]);
+
+  const handleToggleMute = () => {
+    if (!streamRef.current) return;
+    const newMutedState = !isMuted;
+    streamRef.current.getAudioTracks().forEach((track) => {
+      track.enabled = !newMutedState;
+    });
+    setIsMuted(newMutedState);
+  };
+
+  const handleGainChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const newGain = parseFloat(event.target.value);
+    setInputGain(newGain);
+    if (inputGainNodeRef.current) {
+      inputGainNodeRef.current.gain.value = newGain;
+    }
+  };
+
+  const refreshAudioDevices = useCallback(async () => {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    setAudioDevices(devices.filter((d) => d.kind === 'audioinput'));
+    setOutputDevices(devices.filter((d) => d.kind === 'audiooutput' && d.deviceId !== 'default'));
+  }, []);
+
+  useEffect(() => {
+    if (!isSettingsOpen) return;
+    refreshAudioDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshAudioDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshAudioDevices);
+  }, [isSettingsOpen, refreshAudioDevices]);
+
+  const handleOutputDeviceChange = (deviceId: string) => {
+    setSelectedOutputId(deviceId);
+    localStorage.setItem(OUTPUT_DEVICE_STORAGE_KEY, deviceId);
+    // Contexts that are already playing switch over immediately.
+    [outputAudioContextRef.current, ttsAudioCtxRef.current, previewAudioCtxRef.current, micTestCtxRef.current]
+      .forEach((ctx) => ctx && applyOutputDevice(ctx, deviceId));
+  };
+
+  const updateMicProcessing = (patch: Partial<MicProcessingSettings>) => {
+    setMicProcessing((prev) => {
+      const next = { ...prev, ...patch };
+      localStorage.setItem(MIC_PROCESSING_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const stopMicMonitor = useCallback(() => {
+    micMonitorStreamRef.current?.getTracks().forEach((track) => track.stop());
+    micMonitorStreamRef.current = null;
+    micMonitorChainRef.current = null;
+    micMonitorCtxRef.current?.close();
+    micMonitorCtxRef.current = null;
+    setIsMicMonitoring(false);
+  }, []);
+
+  // Plays the processed microphone back through the speakers so the A/B toggle can be heard.
+  const startMicMonitor = useCallback(async () => {
+    stopMicMonitor();
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: micConstraints(selectedDeviceId, micProcessing, micProcessingBypassed),
+      });
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      const ctx: AudioContext = new AudioContextClass();
+      micMonitorStreamRef.current = stream;
+      micMonitorCtxRef.current = ctx;
+      await applyOutputDevice(ctx, selectedOutputId);
+      const gainNode = ctx.createGain();
+      gainNode.gain.value = inputGain;
+      const chain = await createMicProcessingChain(ctx, micProcessing);
+      chain.setBypassed(micProcessingBypassed);
+      ctx.createMediaStreamSource(stream).connect(gainNode);
+      gainNode.connect(chain.input);
+      chain.output.connect(ctx.destination);
+      micMonitorChainRef.current = chain;
+      setIsMicMonitoring(true);
+    } catch (e) {
+      console.error("Mic monitor failed", e);
+      addToast("Could not access the microphone", "error");
+      stopMicMonitor();
+    }
+    // The bypass flag is left out of the deps: the effect below applies it live.
+  }, [selectedDeviceId, micProcessing, inputGain, selectedOutputId, addToast, stopMicMonitor]);
+
+  // Rebuild the monitor when the processing options change so each one can be compared.
+  useEffect(() => {
+    if (micMonitorCtxRef.current) startMicMonitor();
+  }, [startMicMonitor]);
+
+  useEffect(() => {
+    if (!isSettingsOpen) stopMicMonitor();
+  }, [isSettingsOpen, stopMicMonitor]);
+
+  useEffect(() => {
+    return () => stopMicMonitor();
+  }, [stopMicMonitor]);
+
+  useEffect(() => {
+    micChainRef.current?.setBypassed(micProcessingBypassed);
+    micMonitorChainRef.current?.setBypassed(micProcessingBypassed);
+    [streamRef.current, micMonitorStreamRef.current].forEach((stream) => {
+      stream?.getAudioTracks().forEach((track) => {
+        track.applyConstraints(browserProcessingConstraints(micProcessing, micProcessingBypassed)).catch((e) => {
+          console.warn('Could not change microphone processing', e);
+        });
+      });
+    });
+    // Only the A/B switch is applied live; other option changes take effect on the next start.
+  }, [micProcessingBypassed]);
+
+  const stopMicTest = useCallback(() => {
+    micTestStreamRef.current?.getTracks().forEach((track) => track.stop());
+    micTestStreamRef.current = null;
+    micTestCtxRef.current?.close();
+    micTestCtxRef.current = null;
+    micTestSourceRef.current = null;
+    micTestBufferRef.current = null;
+    setMicTestPhase('idle');
+  }, []);
+
+  useEffect(() => {
+    if (!isSettingsOpen) stopMicTest();
+  }, [isSettingsOpen, stopMicTest]);
+
+  useEffect(() => {
+    return () => stopMicTest();
+  }, [stopMicTest]);
+
+  const playMicTestRecording = () => {
+    const ctx = micTestCtxRef.current;
+    const buffer = micTestBufferRef.current;
+    if (!ctx || !buffer) return;
+    micTestSourceRef.current?.stop();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.onended = () => {
+      if (micTestSourceRef.current === source) {
+        micTestSourceRef.current = null;
+        setMicTestPhase('done');
+      }
+    };
+    micTestSourceRef.current = source;
+    setMicTestPhase('playback');
+    source.start();
+  };
+
+  const runMicTest = async () => {
+    stopMicTest();
+    setMicTestResult(null);
+
+    try {
+      stopMicMonitor();
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: micConstraints(selectedDeviceId, micProcessing, micProcessingBypassed),
+      });
+      micTestStreamRef.current = stream;
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      const ctx: AudioContext = new AudioContextClass();
+      micTestCtxRef.current = ctx;
+      await applyOutputDevice(ctx, selectedOutputId);
+      const captureNode = await createCaptureNode(ctx);
+      const gainNode = ctx.createGain();
+      gainNode.gain.value = inputGain;
+      const chain = await createMicProcessingChain(ctx, micProcessing);
+      chain.setBypassed(micProcessingBypassed);
+      ctx.createMediaStreamSource(stream).connect(gainNode);
+      gainNode.connect(chain.input);
+      chain.output.connect(captureNode);
+      refreshAudioDevices();
+
+      const quietFrames = Math.round(MIC_TEST_QUIET_MS / CAPTURE_FRAME_MS);
+      const totalFrames = quietFrames + Math.round(MIC_TEST_SPEAK_MS / CAPTURE_FRAME_MS);
+      const chunks: Float32Array[] = [];
+      const quietRms: number[] = [];
+      const speechRms: number[] = [];
+      let peak = 0;
+      const testGain = inputGain;
+      setMicTestPhase('quiet');
+
+      captureNode.port.onmessage = (event: MessageEvent<CaptureFrame>) => {
+        if (micTestCtxRef.current !== ctx) return;
+        const { samples, rms } = event.data;
+        const count = chunks.push(samples);
+        (count <= quietFrames ? quietRms : speechRms).push(rms);
+        for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+        if (micTestMeterRef.current) {
+          micTestMeterRef.current.style.width = `${Math.min(100, (rms / MIC_TEST_METER_FULL_SCALE) * 100)}%`;
+        }
+        if (count === quietFrames) setMicTestPhase('speak');
+        if (count < totalFrames) return;
+
+        captureNode.port.onmessage = null;
+        if (micTestMeterRef.current) micTestMeterRef.current.style.width = '0%';
+        captureNode.disconnect();
+        gainNode.disconnect();
+        chain.disconnect();
+        stream.getTracks().forEach((track) => track.stop());
+        micTestStreamRef.current = null;
+
+        const buffer = ctx.createBuffer(1, count * CAPTURE_FRAME_SIZE, CAPTURE_SAMPLE_RATE);
+        const channel = buffer.getChannelData(0);
+        chunks.forEach((chunk, i) => channel.set(chunk, i * CAPTURE_FRAME_SIZE));
+        micTestBufferRef.current = buffer;
+        setMicTestResult(analyzeMicTest(quietRms, speechRms, peak, testGain));
+        playMicTestRecording();
+      };
+    } catch (e) {
+      console.error("Mic test failed", e);
+      addToast("Could not access the microphone", "error");
+      stopMicTest();
     }
   };
-  
-  const handleToggleMute = () => {
-    if (!streamRef.current) return;
-    const newMutedState = !isMuted;
-    streamRef.current.getAudioTracks().forEach((track) => {
-      track.enabled = !newMutedState;
-    });
-    setIsMuted(newMutedState);
-  };
 
-  const handleGainChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const newGain = parseFloat(event.target.value);
-    setInputGain(newGain);
-    if (inputGainNodeRef.current) {
-      inputGainNodeRef.current.gain.value = newGain;
-    }
+  const applyMicTestSuggestions = () => {
+    if (!micTestResult) return;
+    setInputGain(micTestResult.suggestedGain);
+    setVadSensitivity(micTestResult.suggestedVad);
+    addToast("Microphone settings updated", "success");
   };
   
   // --- EDITOR FUNCTIONS ---
 
+  // Returns the edited, watermarked image, or null when the model sends no image back.
+  const requestImageEdit = useCallback(async (imageUrl: string, prompt: string, signal?: AbortSignal): Promise<string | null> => {
+    // Convert potential Blob URL to Base64 for API
+    const { data: base64Data, mimeType } = await urlToBase64(imageUrl);
+
+    // Wrap with Retry Logic
+    const response = await retryWithBackoff(async (activeKey) => {
+        const ai = new GoogleGenAI({ apiKey: activeKey });
+        return await scheduleGeminiRequest({ model: 'gemini-2.5-flash-image', label: 'AI edit', feature: 'edit', priority: 'interactive', apiKey: activeKey, signal }, () => ai.models.generateContent({
+            model: 'gemini-2.5-flash-image',
+            contents: {
+                parts: [
+                    { inlineData: { mimeType, data: base64Data } },
+                    { text: prompt }
+                ]
+            },
+            config: {
+                abortSignal: signal,
+                safetySettings: [
+                    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+                    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+                    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+                    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+                ]
+            }
+        }));
+    }, 5, 2000, (attempt, delay) => {
+         addToast(`Server busy, retrying in ${Math.round(delay/1000)}s... (${attempt}/5)`, 'info');
+    }, getEffectiveApiKey, signal);
+
+    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+      if (part.inlineData) {
+        const newUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        // Auto Watermark the edited image
+        try {
+            return await processImage(newUrl, 'watermark', 'auto');
+        } catch (err) {
+            console.warn("Failed to auto-watermark magic edit", err);
+            return newUrl;
+        }
+      }
+    }
+    assertNotSafetyBlocked(response);
+    return null;
+  }, [addToast, getEffectiveApiKey]);
+
+  clientToolsRef.current = {
+    render_image: async ({ prompt }, signal) => {
+      const image = await generateImage(prompt, undefined, undefined, 'interactive', signal);
+      return {
+        response: { success: !!image },
+        text: image ? prompt : `Failed to generate image for: ${prompt}`,
+        image: image || undefined,
+      };
+    },
+    translate_text: async ({ text, target_language, source_language }, signal) => {
+      const translation = await translateText(text, source_language || 'Auto', target_language, signal);
+      return { response: { translation }, text: translation };
+    },
+    generate_video: async ({ prompt }) => {
+      // Video takes minutes, so the model is told it started rather than waiting for it.
+      generateVideo(prompt);
+      return {
+        response: { status: 'started', note: 'The video will appear in the Videos gallery when it is ready.' },
+        text: `Video generation started: ${prompt}`,
+      };
+    },
+    edit_last_image: async ({ instruction }, signal) => {
+      const source = [...transcript].reverse().find((t) => t.image)?.image ?? imageHistory[0]?.url;
+      if (!source) return { response: { error: 'There is no image to edit yet.' }, text: 'There is no image to edit yet.' };
+      const image = await requestImageEdit(source, instruction, signal);
+      return {
+        response: { success: !!image },
+        text: image ? instruction : `No changes generated for: ${instruction}`,
+        image: image || undefined,
+      };
+    },
+    speak_kurdish: async ({ text, dialect }, signal) => {
+      const language: VoiceLanguage = dialect === 'kurmanji' ? 'kurmanji' : 'sorani';
+      const audio = await fetchKurdishAudio(text, language, getVoiceGender(voicePreferences.tts[language]), signal);
+      const audioUrl = URL.createObjectURL(new Blob([audio]));
+      const player = new Audio(audioUrl);
+      if (supportsOutputSelection && selectedOutputId !== 'default') player.setSinkId(selectedOutputId).catch(() => {});
+      player.play().catch(() => {});
+      return { response: { spoken: true }, text, audioUrl };
+    },
+  };
+
   const handleOpenEditor = (img: GeneratedImage) => {
     setEditingImage({
         original: img,
@@ -2158,67 +6324,31 @@ const App: React.FC = () => {
     if (!(await validateApiKey())) return;
 
     setIsProcessingEdit(true);
+    const controller = new AbortController();
+    editAbortRef.current = controller;
+    const signal = controller.signal;
     try {
-        const activeKey = getEffectiveApiKey();
-        if (!activeKey) throw new Error("No API Key");
-        
-        // Convert potential Blob URL to Base64 for API
-        const { data: base64Data, mimeType } = await urlToBase64(editingImage.currentUrl);
-
-        const ai = new GoogleGenAI({ apiKey: activeKey });
-        
-        // Wrap with Retry Logic
-        const response = await retryWithBackoff(async () => {
-            return await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: {
-                    parts: [
-                        { inlineData: { mimeType, data: base64Data } },
-                        { text: promptToUse }
-                    ]
-                },
-                config: {
-                    safetySettings: [
-                        { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-                        { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-                        { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-                        { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-                    ]
-                }
-            });
-        }, 5, 2000, (attempt, delay) => {
-             addToast(`Server busy, retrying in ${Math.round(delay/1000)}s... (${attempt}/5)`, 'info');
-        });
-        
-         if (response.candidates?.[0]?.content?.parts) {
-            for (const part of response.candidates[0].content.parts) {
-              if (part.inlineData) {
-                let newUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                
-                // Auto Watermark the edited image
-                try {
-                    newUrl = await processImage(newUrl, 'watermark', 'auto');
-                } catch (err) {
-                    console.warn("Failed to auto-watermark magic edit", err);
-                }
-
-                setEditingImage(prev => prev ? ({
-                    ...prev,
-                    currentUrl: newUrl,
-                    history: [...prev.history, newUrl]
-                }) : null);
-                setMagicPrompt('');
-                setActiveTool('none');
-                addToast("AI edit complete!", "success");
-                break;
-              }
-            }
-         } else {
-             addToast("No changes generated. Try a different prompt.", "info");
-         }
+        const newUrl = await requestImageEdit(editingImage.currentUrl, promptToUse, signal);
+        if (newUrl) {
+            setEditingImage(prev => prev ? ({
+                ...prev,
+                currentUrl: newUrl,
+                history: [...prev.history, newUrl]
+            }) : null);
+            setMagicPrompt('');
+            setActiveTool('none');
+            addToast("AI edit complete!", "success");
+        } else {
+            addToast("No changes generated. Try a different prompt.", "info");
+        }
     } catch(e: any) {
+        const error = classifyGeminiError(e);
+        if (error instanceof CancelledError) {
+            addToast("AI edit cancelled", "info");
+            return;
+        }
         console.error("Magic edit failed", e);
-        if (e.message?.includes('403') || e.status === 403) {
+        if (error instanceof AuthDeniedError) {
              addToast("Access denied. Please select a paid API key.", 'error');
              // Attempt prompt only if using platform key
              if (apiKeys.length === 0) {
@@ -2229,16 +6359,11 @@ const App: React.FC = () => {
                     }
                  } catch (kErr) { console.error(kErr); }
              }
-        } else if (e.status === 429 || e.code === 429 || e.message?.includes('429')) {
-             if (e.message?.includes('Quota exceeded') || e.message?.includes('limit')) {
-                addToast('Daily Quota Limit Reached. Please try again tomorrow.', 'error');
-             } else {
-                addToast("Too many requests. System cooling down.", 'error');
-             }
         } else {
-             addToast("AI Edit failed. Safety block or network error.", 'error');
+             addToast(`AI Edit failed. ${describeGeminiError(error)}`, 'error');
         }
     } finally {
+        editAbortRef.current = null;
         setIsProcessingEdit(false);
     }
   };
@@ -2282,6 +6407,19 @@ const App: React.FC = () => {
   const SettingsModal = () => {
     // Local state for key input
     const [keyInput, setKeyInput] = useState('');
+    const [passphraseInput, setPassphraseInput] = useState('');
+    const [isVaultBusy, setIsVaultBusy] = useState(false);
+
+    const handleVaultSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!passphraseInput || isVaultBusy) return;
+        setIsVaultBusy(true);
+        const ok = vaultStatus === 'locked'
+            ? await handleUnlockVault(passphraseInput)
+            : await handleSetPassphrase(passphraseInput);
+        setIsVaultBusy(false);
+        if (ok) setPassphraseInput('');
+    };
 
     const handleAddKey = () => {
         if (!keyInput.trim()) return;
@@ -2299,6 +6437,7 @@ const App: React.FC = () => {
     const handleRemoveKey = (keyToRemove: string) => {
         const newKeys = apiKeys.filter(k => k !== keyToRemove);
         saveApiKeys(newKeys);
+        forgetKeyHealth(keyToRemove);
     };
 
     return (
@@ -2316,9 +6455,37 @@ const App: React.FC = () => {
                   API Key Vault (Multi-Key Support)
               </label>
               <p style={{fontSize: '0.8rem', color: '#9ca3af', marginBottom: 12}}>
-                  Add up to 6 API Keys. The app will rotate through them to bypass rate limits.
+                  Add up to 6 API Keys. The app rotates through healthy keys and skips any that are cooling down or out of quota.
               </p>
+
+              <div className={`vault-lock-panel ${vaultStatus}`}>
+                  {vaultStatus === 'unlocked' ? (
+                      <div className="vault-lock-status">
+                          <span>🔓 Encrypted • auto-locks after {VAULT_AUTO_LOCK_MS / 60000} min idle</span>
+                          <div className="vault-lock-actions">
+                              <button className="vault-btn" onClick={lockVault}>Lock</button>
+                              <button className="vault-btn danger" onClick={handleClearPassphrase}>Remove passphrase</button>
+                          </div>
+                      </div>
+                  ) : (
+                      <form className="key-input-row" onSubmit={handleVaultSubmit}>
+                          <input
+                              type="password"
+                              className="key-input"
+                              autoComplete={vaultStatus === 'locked' ? 'current-password' : 'new-password'}
+                              placeholder={vaultStatus === 'locked' ? '🔒 Vault locked. Enter passphrase' : `Set a passphrase (min ${VAULT_MIN_PASSPHRASE_LENGTH} chars) to encrypt keys`}
+                              value={passphraseInput}
+                              onChange={e => setPassphraseInput(e.target.value)}
+                              disabled={isVaultBusy}
+                          />
+                          <button type="submit" className="vault-btn" disabled={!passphraseInput || isVaultBusy}>
+                              {isVaultBusy ? '...' : vaultStatus === 'locked' ? 'Unlock' : 'Encrypt'}
+                          </button>
+                      </form>
+                  )}
+              </div>
               
+              {vaultStatus !== 'locked' && (
               <div className="key-input-row">
                   <input 
                       className="key-input" 
@@ -2328,6 +6495,7 @@ const App: React.FC = () => {
                   />
                   <button className="add-key-btn" onClick={handleAddKey}>+</button>
               </div>
+              )}
 
               <div className="key-list">
                   {apiKeys.map((k, i) => (
@@ -2335,6 +6503,7 @@ const App: React.FC = () => {
                           <span className="key-code">
                               Key #{i+1}: {k.substring(0, 4)}...{k.substring(k.length-4)}
                           </span>
+                          <KeyStatusBadge apiKey={k} />
                           <button className="delete-key-btn" onClick={() => handleRemoveKey(k)}>
                               <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
                           </button>
@@ -2342,12 +6511,49 @@ const App: React.FC = () => {
                   ))}
                   {apiKeys.length === 0 && (
                       <div style={{fontSize: '0.8rem', color: '#52525b', textAlign: 'center', padding: 10}}>
-                          No custom keys. Using default system key.
+                          {vaultStatus === 'locked' ? 'Unlock the vault to use your keys.' : 'No custom keys. Using default system key.'}
                       </div>
                   )}
               </div>
           </div>
 
+          <div className="setting-item">
+            <label>Default Voices</label>
+            <div className="voice-defaults">
+              <div className="voice-defaults-row voice-defaults-head">
+                <span>Language</span><span>Live conversation</span><span>Translation TTS</span>
+              </div>
+              {VOICE_LANGUAGES.map(l => (
+                <div key={l.id} className="voice-defaults-row">
+                  <span>{l.label}</span>
+                  <VoiceSelect
+                    value={voicePreferences.live[l.id]}
+                    onChange={(voiceName) => setVoiceFor('live', l.id, voiceName)}
+                    onPreview={() => previewVoice(voicePreferences.live[l.id], l.id, `live-${l.id}`)}
+                    isPreviewing={previewingVoice === `live-${l.id}`}
+                  />
+                  <VoiceSelect
+                    value={voicePreferences.tts[l.id]}
+                    onChange={(voiceName) => setVoiceFor('tts', l.id, voiceName)}
+                    onPreview={() => previewVoice(voicePreferences.tts[l.id], l.id, `tts-${l.id}`)}
+                    isPreviewing={previewingVoice === `tts-${l.id}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <small className="setting-hint">Kurdish translation audio uses KurdishTTS with a male or female speaker matching the chosen voice.</small>
+          </div>
+
+          <div className="key-manager">
+              <label style={{marginBottom: 8, display: 'block', color: '#e4e4e7', fontSize: '0.9rem'}}>
+                  Usage & Quotas
+              </label>
+              <p style={{fontSize: '0.8rem', color: '#9ca3af', marginBottom: 12}}>
+                  Recorded on this device. Set a daily request budget to get a warning before a key runs out.
+              </p>
+              <UsageDashboard apiKeys={apiKeys} />
+          </div>
+
           <div className="setting-item">
             <label htmlFor="mic-select">Microphone Input</label>
             <div className="select-wrapper">
@@ -2368,6 +6574,63 @@ const App: React.FC = () => {
             {(connectionState !== 'idle' && connectionState !== 'error') && <small className="warning-text">Conversation active. Settings locked.</small>}
           </div>
 
+          <div className="setting-item">
+            <label htmlFor="output-select">Speaker Output</label>
+            <div className="select-wrapper">
+              <select
+                  id="output-select"
+                  value={selectedOutputId}
+                  onChange={(e) => handleOutputDeviceChange(e.target.value)}
+                  disabled={!supportsOutputSelection}
+              >
+                  <option value="default">Default Device</option>
+                  {outputDevices.map((device, i) => (
+                  <option key={device.deviceId} value={device.deviceId}>
+                      {device.label || `Speaker ${i + 1}`}
+                  </option>
+                  ))}
+              </select>
+            </div>
+            {!supportsOutputSelection && <small className="setting-hint">This browser always plays through the system default output.</small>}
+          </div>
+
+          <div className="setting-item">
+            <label>Microphone Processing</label>
+            {([
+              ['echoCancellation', 'Echo cancellation (stops the assistant hearing itself on speakers)'],
+              ['noiseSuppression', 'Noise suppression'],
+              ['autoGainControl', 'Automatic gain control'],
+              ['highPass', `High-pass filter (removes rumble below ${MIC_HIGH_PASS_HZ} Hz)`],
+              ['noiseGate', 'Noise gate (mutes the mic between words)'],
+            ] as [keyof MicProcessingSettings, string][]).map(([key, label]) => (
+              <label key={key} className="setting-toggle">
+                <input
+                    type="checkbox"
+                    checked={micProcessing[key]}
+                    onChange={(e) => updateMicProcessing({ [key]: e.target.checked })}
+                    disabled={connectionState !== 'idle' && connectionState !== 'error'}
+                />
+                {label}
+              </label>
+            ))}
+            <div className="mic-ab-row">
+              <div className="ab-toggle">
+                <button className={!micProcessingBypassed ? 'active' : ''} onClick={() => setMicProcessingBypassed(false)}>Processed</button>
+                <button className={micProcessingBypassed ? 'active' : ''} onClick={() => setMicProcessingBypassed(true)}>Raw</button>
+              </div>
+              <button
+                className={`mic-test-btn ${isMicMonitoring ? 'primary' : ''}`}
+                onClick={isMicMonitoring ? stopMicMonitor : startMicMonitor}
+                disabled={(connectionState !== 'idle' && connectionState !== 'error') || micTestPhase === 'quiet' || micTestPhase === 'speak'}
+              >
+                {isMicMonitoring ? 'Stop Listening' : 'Listen to Mic'}
+              </button>
+            </div>
+            <small className="setting-hint">
+              Switch between processed and raw while listening, or during a conversation. Use headphones when listening to avoid feedback.
+            </small>
+          </div>
+
           <div className="setting-item">
             <label htmlFor="vad-select">Voice Detection (VAD)</label>
             <div className="select-wrapper">
@@ -2377,11 +6640,30 @@ const App: React.FC = () => {
                   onChange={(e) => setVadSensitivity(e.target.value as VadSensitivity)}
                   disabled={connectionState !== 'idle' && connectionState !== 'error'}
               >
+                  <option value="auto">Auto (Adapts to room noise)</option>
                   <option value="low">Low Sensitivity (Loud environment)</option>
                   <option value="medium">Medium Sensitivity</option>
                   <option value="high">High Sensitivity (Quiet environment)</option>
               </select>
             </div>
+            <label className="setting-toggle">
+              <input
+                  type="checkbox"
+                  checked={silenceGating}
+                  onChange={(e) => setSilenceGating(e.target.checked)}
+                  disabled={connectionState !== 'idle' && connectionState !== 'error'}
+              />
+              Pause streaming while you are silent (saves bandwidth)
+            </label>
+            <label className="setting-toggle">
+              <input
+                  type="checkbox"
+                  checked={liveCompression}
+                  onChange={(e) => handleLiveCompressionChange(e.target.checked)}
+                  disabled={connectionState !== 'idle' && connectionState !== 'error'}
+              />
+              Context compression (lets long conversations continue past the time limit)
+            </label>
           </div>
 
           <div className="setting-item">
@@ -2401,6 +6683,99 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          <div className="setting-item">
+            <label>Microphone Test</label>
+            <div className="mic-test">
+              <div className="mic-test-meter">
+                <div ref={micTestMeterRef} className="mic-test-meter-fill" />
+              </div>
+              <p className="mic-test-status">
+                {micTestPhase === 'idle' && !micTestResult && 'Records a few seconds and plays them back through your speakers.'}
+                {micTestPhase === 'idle' && micTestResult && 'Test finished.'}
+                {micTestPhase === 'quiet' && 'Stay quiet for a moment…'}
+                {micTestPhase === 'speak' && 'Now speak normally…'}
+                {micTestPhase === 'playback' && 'Playing back your recording…'}
+                {micTestPhase === 'done' && 'Done. Replay the recording or apply the suggestions below.'}
+              </p>
+              {micTestResult && (
+                <div className="mic-test-result">
+                  <span>Room noise: {(micTestResult.noiseFloor * 1000).toFixed(1)}</span>
+                  <span>Voice level: {micTestResult.speechDetected ? (micTestResult.speechLevel * 1000).toFixed(1) : 'no speech heard'}</span>
+                  {micTestResult.clipped && <span className="warning-text">Your voice is clipping at the current gain.</span>}
+                  <span>Suggested gain {micTestResult.suggestedGain.toFixed(1)}, {micTestResult.suggestedVad} sensitivity</span>
+                </div>
+              )}
+              <div className="mic-test-actions">
+                {micTestPhase === 'quiet' || micTestPhase === 'speak' ? (
+                  <button className="mic-test-btn" onClick={stopMicTest}>Cancel</button>
+                ) : (
+                  <button
+                    className="mic-test-btn"
+                    onClick={runMicTest}
+                    disabled={connectionState !== 'idle' && connectionState !== 'error'}
+                  >
+                    {micTestResult ? 'Test Again' : 'Start Test'}
+                  </button>
+                )}
+                {micTestPhase === 'done' && <button className="mic-test-btn" onClick={playMicTestRecording}>Replay</button>}
+                {micTestResult && micTestPhase !== 'quiet' && micTestPhase !== 'speak' && (
+                  <button className="mic-test-btn primary" onClick={applyMicTestSuggestions}>Apply Suggestions</button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="setting-item">
+            <label htmlFor="rate-slider">Assistant Speed ({playbackSettings.rate.toFixed(2)}x)</label>
+            <div className="slider-container">
+              <span>{PLAYBACK_RATE_MIN}x</span>
+              <input
+                type="range"
+                id="rate-slider"
+                min={PLAYBACK_RATE_MIN}
+                max={PLAYBACK_RATE_MAX}
+                step="0.05"
+                value={playbackSettings.rate}
+                onChange={(e) => updatePlaybackSettings({ rate: parseFloat(e.target.value) })}
+              />
+              <span>{PLAYBACK_RATE_MAX}x</span>
+            </div>
+          </div>
+
+          <div className="setting-item">
+            <label htmlFor="volume-slider">Assistant Volume ({Math.round(playbackSettings.volume * 100)}%)</label>
+            <div className="slider-container">
+              <span>0</span>
+              <input
+                type="range"
+                id="volume-slider"
+                min="0"
+                max="1.5"
+                step="0.05"
+                value={playbackSettings.volume}
+                onChange={(e) => updatePlaybackSettings({ volume: parseFloat(e.target.value) })}
+              />
+              <span>150%</span>
+            </div>
+          </div>
+
+          <div className="setting-item">
+            <label htmlFor="jitter-slider">Playback Buffer ({playbackSettings.jitterMs} ms)</label>
+            <div className="slider-container">
+              <span>0</span>
+              <input
+                type="range"
+                id="jitter-slider"
+                min="0"
+                max="1000"
+                step="50"
+                value={playbackSettings.jitterMs}
+                onChange={(e) => updatePlaybackSettings({ jitterMs: parseInt(e.target.value, 10) })}
+              />
+              <span>1s</span>
+            </div>
+          </div>
+
           <div className="setting-item">
             <label>Custom Background</label>
             <div className="bg-upload-controls">
@@ -2438,6 +6813,63 @@ const App: React.FC = () => {
         />
       )}
       {isSettingsOpen && <SettingsModal />}
+      {isConversationListOpen && (
+        <div className="conversation-drawer-overlay" onClick={() => setIsConversationListOpen(false)}>
+          <aside className="conversation-drawer" onClick={(e) => e.stopPropagation()}>
+            <div className="conversation-drawer-header">
+              <h2>Conversations</h2>
+              <button className="close-icon" onClick={() => setIsConversationListOpen(false)}>
+                  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+              </button>
+            </div>
+            <button className="new-conversation-btn" onClick={handleNewConversation}>+ New conversation</button>
+            <div className="conversation-list">
+              {conversations.length === 0 && <p className="conversation-empty">Chats you start are saved here.</p>}
+              {conversations.map((meta, i) => (
+                <React.Fragment key={meta.id}>
+                  {(i === 0 || meta.pinned !== conversations[i - 1].pinned) && (
+                    <div className="conversation-group">{meta.pinned ? 'Pinned' : 'Recent'}</div>
+                  )}
+                  <div className={`conversation-item ${meta.id === activeConversationId ? 'active' : ''}`}>
+                    {renamingConversation?.id === meta.id ? (
+                      <input
+                        className="conversation-rename"
+                        autoFocus
+                        value={renamingConversation.title}
+                        maxLength={CONVERSATION_TITLE_MAX_LENGTH}
+                        onChange={(e) => setRenamingConversation({ id: meta.id, title: e.target.value })}
+                        onBlur={handleRenameConversation}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRenameConversation();
+                          if (e.key === 'Escape') setRenamingConversation(null);
+                        }}
+                      />
+                    ) : (
+                      <button className="conversation-open" onClick={() => openConversation(meta.id)}>
+                        <span className="conversation-title" dir={detectTextDirection(meta.title)}>{meta.title}</span>
+                        <span className="conversation-date">
+                          {new Date(meta.updatedAt).toLocaleDateString([], { month: 'short', day: 'numeric' })} · {formatDate(meta.updatedAt)}
+                        </span>
+                      </button>
+                    )}
+                    <div className="conversation-actions">
+                      <button className={meta.pinned ? 'active' : ''} onClick={() => handleTogglePinConversation(meta)} title={meta.pinned ? 'Unpin' : 'Pin'}>
+                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M16 9V4h1c.55 0 1-.45 1-1s-.45-1-1-1H7c-.55 0-1 .45-1 1s.45 1 1 1h1v5c0 1.66-1.34 3-3 3v2h5.97v7l1 1 1-1v-7H19v-2c-1.66 0-3-1.34-3-3z"/></svg>
+                      </button>
+                      <button onClick={() => setRenamingConversation({ id: meta.id, title: meta.title })} title="Rename">
+                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04a1 1 0 0 0 0-1.41l-2.34-2.34a1 1 0 0 0-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/></svg>
+                      </button>
+                      <button className="danger" onClick={() => handleDeleteConversation(meta)} title="Delete">
+                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
+                      </button>
+                    </div>
+                  </div>
+                </React.Fragment>
+              ))}
+            </div>
+          </aside>
+        </div>
+      )}
       <DownloadManagerModal 
         isOpen={isManagerOpen}
         onClose={() => setIsManagerOpen(false)}
@@ -2463,9 +6895,15 @@ const App: React.FC = () => {
               </div>
           </div>
           <div className="header-actions">
+            <RequestQueueIndicator />
+            {activeTab === 'chat' && (
+                <button className="header-action-btn" onClick={() => setIsConversationListOpen(true)} title="Conversations">
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42A8.954 8.954 0 0 0 13 21a9 9 0 0 0 0-18zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z"/></svg>
+                </button>
+            )}
             {activeTab === 'chat' && transcript.length > 0 && (
-                <button className="header-action-btn danger" onClick={handleClearChat} title="Reset Conversation">
-                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M6 19c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
+                <button className="header-action-btn" onClick={handleNewConversation} title="New Conversation">
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z"/></svg>
                 </button>
             )}
             <button className="header-action-btn" onClick={() => setIsSettingsOpen(true)} aria-label="Settings">
@@ -2503,32 +6941,88 @@ const App: React.FC = () => {
                      {transcript.map((turn, i) => (
                         <div key={i} className={`message-row ${turn.speaker}`}>
                            {turn.speaker === 'user' ? <UserAvatar /> : <BotAvatar />}
-                           <div className={`message-bubble ${turn.speaker}`}>
+                           <div className={`message-bubble ${turn.speaker} ${turn.cancelled ? 'cancelled' : ''}`}>
                               {turn.image && (
                                   <div className="image-attachment" onClick={() => handleOpenEditor({id: turn.id || '', url: turn.image!, prompt: turn.text || '', timestamp: Date.now()})}>
                                       <img src={turn.image} alt="Attachment" />
                                   </div>
                               )}
-                              {turn.text && <p className="message-text">{turn.text}</p>}
+                              {editingTurn?.index === i ? (
+                                  <div className="turn-edit">
+                                      <textarea
+                                          autoFocus
+                                          dir={detectTextDirection(editingTurn.text)}
+                                          value={editingTurn.text}
+                                          onChange={(e) => setEditingTurn({ index: i, text: e.target.value })}
+                                          onKeyDown={(e) => {
+                                              if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleResendEdit(); }
+                                              if (e.key === 'Escape') setEditingTurn(null);
+                                          }}
+                                      />
+                                      <div className="turn-edit-actions">
+                                          <button type="button" onClick={() => setEditingTurn(null)}>Cancel</button>
+                                          <button type="button" className="primary" onClick={handleResendEdit}>Send</button>
+                                      </div>
+                                  </div>
+                              ) : turn.text && (turn.speaker === 'model' ? (
+                                  <MessageContent text={turn.text} isStreaming={turn.isStreaming} />
+                              ) : (
+                                  <p className="message-text" dir={detectTextDirection(turn.text)}>{turn.text}</p>
+                              ))}
+                              {turn.stopped && <span className="stopped-note">Stopped</span>}
+                              {turn.origin === 'voice' && (
+                                  <div className="voice-turn-meta">
+                                      <span className="voice-badge">Voice</span>
+                                      {turn.startedAt && (
+                                          <span>{formatTurnTime(turn.startedAt)}{turn.endedAt ? ` – ${formatTurnTime(turn.endedAt)}` : ''}</span>
+                                      )}
+                                  </div>
+                              )}
+                              {turn.audioUrl && <audio className="voice-turn-audio" src={turn.audioUrl} controls preload="none" />}
                               {turn.isLoading && (
                                   <div className="typing-indicator"><span></span><span></span><span></span></div>
                               )}
-                              {turn.speaker === 'model' && !turn.isLoading && (
+                              {turn.speaker === 'user' && editingTurn?.index !== i && (turn.branches || turn.origin !== 'voice') && (
                                 <div className="feedback-actions">
-                                    <button 
-                                        className={`feedback-btn ${turn.feedback === 'up' ? 'active' : ''}`}
-                                        onClick={() => handleFeedback(i, 'up')}
-                                        title="Helpful"
-                                    >
-                                        <svg viewBox="0 0 24 24" fill="currentColor"><path d="M1 21h4V9H1v12zm22-11c0-1.1-.9-2-2-2h-6.31l.95-4.57.03-.32c0-.41-.17-.79-.44-1.06L14.17 1 7.59 7.59C7.22 7.95 7 8.45 7 9v10c0 1.1.9 2 2 2h9c.83 0 1.54-.5 1.84-1.22l3.02-7.05c.09-.23.14-.47.14-.73v-1.91l-.01-.01L23 10z"/></svg>
-                                    </button>
-                                    <button 
-                                        className={`feedback-btn ${turn.feedback === 'down' ? 'active' : ''}`}
-                                        onClick={() => handleFeedback(i, 'down')}
-                                        title="Not helpful"
-                                    >
-                                        <svg viewBox="0 0 24 24" fill="currentColor"><path d="M15 3H6c-.83 0-1.54.5-1.84 1.22l-3.02 7.05c-.09.23-.14.47-.14.73v1.91l.01.01L1 14c0 1.1.9 2 2 2h6.31l-.95 4.57-.03.32c0 .41.17.79.44 1.06L9.83 23l6.59-6.59c.36-.36.58-.86.58-1.41V5c0-1.1-.9-2-2-2zm4 0v12h4V3h-4z"/></svg>
-                                    </button>
+                                    {turn.branches && turn.branches.length > 1 && (
+                                        <VersionNav index={turn.branchIndex ?? 0} total={turn.branches.length} onChange={(target) => handleSwitchVersion(i, target)} disabled={isProcessingText} />
+                                    )}
+                                    {turn.origin !== 'voice' && (
+                                        <button className="feedback-btn" onClick={() => setEditingTurn({ index: i, text: turn.text || '' })} disabled={isProcessingText} title="Edit and resend">
+                                            <svg viewBox="0 0 24 24" fill="currentColor"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04a1 1 0 0 0 0-1.41l-2.34-2.34a1 1 0 0 0-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/></svg>
+                                        </button>
+                                    )}
+                                </div>
+                              )}
+                              {turn.speaker === 'model' && !turn.isLoading && !turn.isStreaming && (
+                                <div className="feedback-actions">
+                                    {turn.branches && turn.branches.length > 1 && (
+                                        <VersionNav index={turn.branchIndex ?? 0} total={turn.branches.length} onChange={(target) => handleSwitchVersion(i, target)} disabled={isProcessingText} />
+                                    )}
+                                    {!turn.cancelled && (
+                                      <>
+                                          <button 
+                                              className={`feedback-btn ${turn.feedback === 'up' ? 'active' : ''}`}
+                                              onClick={() => handleFeedback(i, 'up')}
+                                              title="Helpful"
+                                          >
+                                              <svg viewBox="0 0 24 24" fill="currentColor"><path d="M1 21h4V9H1v12zm22-11c0-1.1-.9-2-2-2h-6.31l.95-4.57.03-.32c0-.41-.17-.79-.44-1.06L14.17 1 7.59 7.59C7.22 7.95 7 8.45 7 9v10c0 1.1.9 2 2 2h9c.83 0 1.54-.5 1.84-1.22l3.02-7.05c.09-.23.14-.47.14-.73v-1.91l-.01-.01L23 10z"/></svg>
+                                          </button>
+                                          <button 
+                                              className={`feedback-btn ${turn.feedback === 'down' ? 'active' : ''}`}
+                                              onClick={() => handleFeedback(i, 'down')}
+                                              title="Not helpful"
+                                          >
+                                              <svg viewBox="0 0 24 24" fill="currentColor"><path d="M15 3H6c-.83 0-1.54.5-1.84 1.22l-3.02 7.05c-.09.23-.14.47-.14.73v1.91l.01.01L1 14c0 1.1.9 2 2 2h6.31l-.95 4.57-.03.32c0 .41.17.79.44 1.06L9.83 23l6.59-6.59c.36-.36.58-.86.58-1.41V5c0-1.1-.9-2-2-2zm4 0v12h4V3h-4z"/></svg>
+                                          </button>
+                                      </>
+                                    )}
+                                    {/* Offered once per reply, on its last turn */}
+                                    {turn.origin !== 'voice' && transcript[i + 1]?.speaker !== 'model' && transcript.slice(0, i).some((t) => t.speaker === 'user') && (
+                                        <button className="feedback-btn" onClick={() => handleRegenerate(i)} disabled={isProcessingText} title="Regenerate">
+                                            <svg viewBox="0 0 24 24" fill="currentColor"><path d="M17.65 6.35A7.958 7.958 0 0 0 12 4a8 8 0 1 0 7.73 10h-2.08A5.99 5.99 0 0 1 12 18c-3.31 0-6-2.69-6-6s2.69-6 6-6c1.66 0 3.14.69 4.22 1.78L13 11h7V4l-2.35 2.35z"/></svg>
+                                        </button>
+                                    )}
                                 </div>
                               )}
                            </div>
@@ -2538,7 +7032,7 @@ const App: React.FC = () => {
                         <div key={`current-${i}`} className={`message-row ${turn.speaker}`}>
                            {turn.speaker === 'user' ? <UserAvatar /> : <BotAvatar />}
                            <div className={`message-bubble ${turn.speaker}`}>
-                              <p className="message-text">{turn.text}</p>
+                              <p className="message-text" dir={detectTextDirection(turn.text)}>{turn.text}</p>
                            </div>
                         </div>
                      ))}
@@ -2578,13 +7072,15 @@ const App: React.FC = () => {
                                 onChange={(e) => setTextInput(e.target.value)}
                                 disabled={isProcessingText}
                             />
-                            <button type="submit" className="send-icon-btn" disabled={(!textInput.trim() && !attachment) || isProcessingText}>
-                                {isProcessingText ? (
-                                    <img src={WATERMARK_URL} className="loading-pulse-logo" style={{width: 20, height: 20}} alt="..." />
-                                ) : (
+                            {isProcessingText ? (
+                                <button type="button" className="send-icon-btn stop" onClick={() => chatAbortRef.current?.abort()} title="Cancel">
+                                    <svg viewBox="0 0 24 24" fill="currentColor"><path d="M6 6h12v12H6z"/></svg>
+                                </button>
+                            ) : (
+                                <button type="submit" className="send-icon-btn" disabled={!textInput.trim() && !attachment}>
                                     <svg viewBox="0 0 24 24" fill="currentColor"><path d="M2.01 21L23 12 2.01 3 2 10l15 2-15 2z"/></svg>
-                                )}
-                            </button>
+                                </button>
+                            )}
                         </form>
                     </div>
                 </div>
@@ -2598,28 +7094,86 @@ const App: React.FC = () => {
                         <img src="https://i.ibb.co/21jpMNhw/234421810-326887782452132-7028869078528396806-n-removebg-preview-1.png" className="speak-logo" alt="AI" />
                     </div>
                     <canvas ref={canvasRef} width="340" height="340" />
+                    {visualSource && (
+                        <div className={`visual-preview ${visualSource}`}>
+                            <video
+                                ref={visualPreviewRef}
+                                autoPlay
+                                muted
+                                playsInline
+                                className={visualSource === 'camera' && cameraFacing === 'user' ? 'mirrored' : ''}
+                            />
+                            <div className="visual-preview-actions">
+                                {visualSource === 'camera' && hasMultipleCameras && (
+                                    <button
+                                        onClick={() => startVisualInput('camera', cameraFacing === 'user' ? 'environment' : 'user')}
+                                        title="Switch camera"
+                                    >
+                                        <svg viewBox="0 0 24 24" fill="currentColor"><path d="M20 5h-3.17L15 3H9L7.17 5H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V7c0-1.1-.9-2-2-2zm-5 11.5V14H9v2.5L5.5 13 9 9.5V12h6V9.5l3.5 3.5-3.5 3.5z"/></svg>
+                                    </button>
+                                )}
+                                <button onClick={stopVisualInput} title="Stop sharing">
+                                    <svg viewBox="0 0 24 24" fill="currentColor"><path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/></svg>
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="live-voice-picker">
+                    <select
+                        value={voicePreferences.liveLanguage}
+                        onChange={(e) => updateVoicePreferences((prefs) => ({ ...prefs, liveLanguage: e.target.value as VoiceLanguage }))}
+                        disabled={connectionState !== 'idle' && connectionState !== 'error'}
+                    >
+                        {VOICE_LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                    </select>
+                    <VoiceSelect
+                        value={voicePreferences.live[voicePreferences.liveLanguage]}
+                        onChange={(voiceName) => setVoiceFor('live', voicePreferences.liveLanguage, voiceName)}
+                        onPreview={() => previewVoice(voicePreferences.live[voicePreferences.liveLanguage], voicePreferences.liveLanguage, 'speak')}
+                        isPreviewing={previewingVoice === 'speak'}
+                        disabled={connectionState !== 'idle' && connectionState !== 'error'}
+                    />
                 </div>
 
                 <div className="voice-toggle-container">
                     <button 
-                        className={`voice-choice-btn ${voiceGender === 'female' ? 'active' : ''}`}
-                        onClick={() => setVoiceGender('female')}
+                        className={`voice-choice-btn ${talkMode === 'hands-free' ? 'active' : ''}`}
+                        onClick={() => handleTalkModeChange('hands-free')}
                         disabled={connectionState !== 'idle' && connectionState !== 'error'}
                     >
-                        Girl
+                        Hands-free
                     </button>
                     <button 
-                        className={`voice-choice-btn ${voiceGender === 'male' ? 'active' : ''}`}
-                        onClick={() => setVoiceGender('male')}
+                        className={`voice-choice-btn ${talkMode === 'push-to-talk' ? 'active' : ''}`}
+                        onClick={() => handleTalkModeChange('push-to-talk')}
                         disabled={connectionState !== 'idle' && connectionState !== 'error'}
                     >
-                        Boy
+                        Push to talk
                     </button>
                 </div>
 
+                {(connectionState === 'connected' || connectionState === 'reconnecting') && (
+                    <LiveSessionMeter
+                        startedAtRef={liveSessionStartRef}
+                        usageRef={liveUsageRef}
+                        limitMs={liveSessionLimitMs(liveUsedVideoRef.current || !!visualSource, liveCompression)}
+                    />
+                )}
+
                 <div className="live-captions">
+                    {connectionState === 'reconnecting' && (
+                        <p className="reconnecting-text">Reconnecting…</p>
+                    )}
+                    {liveLimitWarning && connectionState === 'connected' && (
+                        <p className="live-limit-warning">{liveLimitWarning}</p>
+                    )}
                     {transcript.length > 0 && (
                         <p className={`caption-text ${transcript[transcript.length-1].speaker === 'user' ? 'user' : ''}`}>
+                            {transcript[transcript.length-1].image && (
+                                <img src={transcript[transcript.length-1].image} className="caption-thumb" alt="" />
+                            )}
                             {transcript[transcript.length-1].text}
                         </p>
                     )}
@@ -2628,11 +7182,116 @@ const App: React.FC = () => {
                              {currentTurn[currentTurn.length-1].text}
                         </p>
                     )}
-                    {transcript.length === 0 && currentTurn.length === 0 && (
-                        <p className="placeholder-text">Tap the mic button below to start</p>
+                    {transcript.length === 0 && currentTurn.length === 0 && !sessionRecording && (
+                        <p className="placeholder-text">
+                            {talkMode === 'push-to-talk' && connectionState === 'connected'
+                                ? 'Hold the talk button or Space while you speak'
+                                : 'Tap the mic button below to start'}
+                        </p>
                     )}
                 </div>
+                {(connectionState === 'connected' || connectionState === 'reconnecting') && (
+                    <div className="visual-input-row">
+                        <button
+                            className={`visual-input-btn ${visualSource === 'camera' ? 'active' : ''}`}
+                            onClick={() => visualSource === 'camera' ? stopVisualInput() : startVisualInput('camera', cameraFacing)}
+                        >
+                            <svg viewBox="0 0 24 24" fill="currentColor"><path d="M17 10.5V7c0-.55-.45-1-1-1H4c-.55 0-1 .45-1 1v10c0 .55.45 1 1 1h12c.55 0 1-.45 1-1v-3.5l4 4v-11l-4 4z"/></svg>
+                            Camera
+                        </button>
+                        {typeof navigator.mediaDevices?.getDisplayMedia === 'function' && (
+                            <button
+                                className={`visual-input-btn ${visualSource === 'screen' ? 'active' : ''}`}
+                                onClick={() => visualSource === 'screen' ? stopVisualInput() : startVisualInput('screen')}
+                            >
+                                <svg viewBox="0 0 24 24" fill="currentColor"><path d="M20 18c1.1 0 1.99-.9 1.99-2L22 6c0-1.11-.9-2-2-2H4c-1.11 0-2 .89-2 2v10c0 1.1.89 2 2 2H0v2h24v-2h-4zM4 6h16v10H4V6z"/></svg>
+                                Share screen
+                            </button>
+                        )}
+                    </div>
+                )}
+                {connectionState === 'connected' && (
+                    <form className="input-wrapper live-text-form" onSubmit={handleTextMessage}>
+                        <input
+                            type="file"
+                            accept="image/*"
+                            ref={fileInputRef}
+                            style={{display: 'none'}}
+                            onChange={handleFileSelect}
+                        />
+                        <button type="button" className={`attach-btn ${attachment ? 'active' : ''}`} onClick={() => fileInputRef.current?.click()} title="Attach Image">
+                            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="currentColor"><path d="M16.5 6v11.5c0 2.21-1.79 4-4 4s-4-1.79-4-4V5a2.5 2.5 0 0 1 5 0v10.5c0 .55-.45 1-1 1s-1-.45-1-1V6H10v9.5a2.5 2.5 0 0 0 5 0V5c0-2.21-1.79-4-4-4S7 2.79 7 5v12.5c0 3.04 2.46 5.5 5.5 5.5s5.5-2.46 5.5-5.5V6h-1.5z"/></svg>
+                        </button>
+                        <input
+                            type="text"
+                            className="chat-input"
+                            placeholder={attachment ? "Ask about this image..." : "Type to the assistant..."}
+                            value={textInput}
+                            onChange={(e) => setTextInput(e.target.value)}
+                        />
+                        <button type="submit" className="send-icon-btn" disabled={!textInput.trim() && !attachment}>
+                            <svg viewBox="0 0 24 24" fill="currentColor"><path d="M2.01 21L23 12 2.01 3 2 10l15 2-15 2z"/></svg>
+                        </button>
+                    </form>
+                )}
+                {liveSummary && (connectionState === 'idle' || connectionState === 'error') && (
+                    <div className="live-summary-card">
+                        <div className="recording-card-header">
+                            <span>{LIVE_END_TITLES[liveSummary.reason]}</span>
+                            <button className="live-summary-close" onClick={() => setLiveSummary(null)} title="Dismiss">×</button>
+                        </div>
+                        <p className="live-summary-stats">
+                            {formatClock(Math.floor(liveSummary.elapsedMs / 1000))} · {formatCount(liveSummary.totalTokens)} tokens
+                        </p>
+                        {liveSummary.summary ? (
+                            <p className="live-summary-text">{liveSummary.summary}</p>
+                        ) : (
+                            <div className="live-summary-actions">
+                                <button
+                                    className="mic-test-btn primary"
+                                    onClick={summarizeLiveSession}
+                                    disabled={liveSummary.isSummarizing || !transcript.some((t) => t.origin === 'voice' && (t.startedAt ?? 0) >= liveSummary.startedAt)}
+                                >
+                                    {liveSummary.isSummarizing ? 'Summarizing…' : 'Summarize conversation'}
+                                </button>
+                                <button className="mic-test-btn" onClick={startConversation}>Start a new session</button>
+                            </div>
+                        )}
+                    </div>
+                )}
+                {sessionRecording && (connectionState === 'idle' || connectionState === 'error') && (
+                    <div className="recording-card">
+                        <div className="recording-card-header">
+                            <span>Session recording · {formatClock(sessionRecording.durationSeconds)}</span>
+                            <a href={sessionRecording.url} download={sessionRecording.fileName} className="recording-download">Download WAV</a>
+                        </div>
+                        <audio ref={recordingAudioRef} src={sessionRecording.url} controls />
+                        {sessionRecording.markers.length > 0 && (
+                            <div className="recording-markers">
+                                {sessionRecording.markers.map((marker, i) => (
+                                    <button
+                                        key={i}
+                                        className={`recording-marker ${marker.label === 'User' ? 'user' : ''}`}
+                                        onClick={() => {
+                                            if (recordingAudioRef.current) recordingAudioRef.current.currentTime = marker.seconds;
+                                        }}
+                                    >
+                                        {formatClock(marker.seconds)} {marker.label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
                 <div className="speak-controls-row">
+                   <button
+                      className={`control-btn secondary record ${recordSession ? 'armed' : ''}`}
+                      onClick={() => setRecordSession(!recordSession)}
+                      disabled={connectionState !== 'idle' && connectionState !== 'error'}
+                      title={recordSession ? 'Recording enabled for the next session' : 'Record the next session'}
+                   >
+                       <svg viewBox="0 0 24 24" fill="currentColor"><circle cx="12" cy="12" r="7"/></svg>
+                   </button>
                    <button className={`control-btn secondary ${isMuted ? 'active' : ''}`} onClick={handleToggleMute} disabled={connectionState !== 'connected'}>
                        {isMuted ? (
                            <svg viewBox="0 0 24 24" fill="currentColor"><path d="M19 11h-1.7c0 .74-.16 1.43-.43 2.05l1.23 1.23c.56-.98.9-2.09.9-3.28zm-4.02.17c0-.06.02-.11.02-.17V5c0-1.66-1.34-3-3-3S9 3.34 9 5v.18l5.98 5.99zM4.27 3L3 4.27l6.01 6.01V11c0 1.66 1.33 3 2.99 3 .22 0 .44-.03.65-.08l2.98 2.98c-.98.63-2.12 1.03-3.34 1.08v2.01c3.48-.52 6.28-3.36 6.81-6.83l2.24 2.24L22.73 20 4.27 3z"/></svg>
@@ -2640,12 +7299,26 @@ const App: React.FC = () => {
                            <svg viewBox="0 0 24 24" fill="currentColor"><path d="M12 14c1.66 0 3-1.34 3-3V5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3z"/><path d="M17 11c0 2.76-2.24 5-5 5s-5-2.24-5-5H5c0 3.53 2.61 6.43 6 6.92V21h2v-3.08c3.39-.49 6-3.39 6-6.92h-2z"/></svg>
                        )}
                    </button>
+                   {talkMode === 'push-to-talk' && connectionState === 'connected' && (
+                       <button
+                          className={`control-btn ptt ${isPushToTalkActive ? 'talking' : ''}`}
+                          onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); beginPushToTalk(); }}
+                          onPointerUp={endPushToTalk}
+                          onPointerCancel={endPushToTalk}
+                          onContextMenu={(e) => e.preventDefault()}
+                          disabled={isMuted}
+                          title="Hold to talk (Space)"
+                       >
+                          <svg viewBox="0 0 24 24" fill="currentColor"><path d="M12 14c1.66 0 3-1.34 3-3V5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3z"/><path d="M17 11c0 2.76-2.24 5-5 5s-5-2.24-5-5H5c0 3.53 2.61 6.43 6 6.92V21h2v-3.08c3.39-.49 6-3.39 6-6.92h-2z"/></svg>
+                          <span>{isPushToTalkActive ? 'Release' : 'Hold'}</span>
+                       </button>
+                   )}
                    <button 
-                      className={`control-btn primary ${connectionState === 'connected' ? 'danger' : ''}`}
+                      className={`control-btn primary ${connectionState === 'connected' || connectionState === 'reconnecting' ? 'danger' : ''}`}
                       onClick={handleToggleConversation}
                       disabled={connectionState === 'connecting'}
                    >
-                      {connectionState === 'connecting' ? (
+                      {connectionState === 'connecting' || connectionState === 'reconnecting' ? (
                           <img src={WATERMARK_URL} className="loading-pulse-logo" style={{width: 24, height: 24}} alt="..." />
                       ) : connectionState === 'connected' ? (
                           <svg viewBox="0 0 24 24" fill="currentColor"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg>
@@ -2731,6 +7404,7 @@ const App: React.FC = () => {
                        {isGeneratingImagePage && (
                            <div className="gallery-card loading-card">
                                <img src={WATERMARK_URL} className="loading-pulse-logo" alt="Generating..." />
+                               <button className="cancel-btn" onClick={() => imageGenAbortRef.current?.abort()}>Cancel</button>
                            </div>
                        )}
                        {imageHistory.map(img => (
@@ -2786,12 +7460,16 @@ const App: React.FC = () => {
                                {vid.state === 'completed' ? (
                                    <video src={vid.url} controls loop playsInline />
                                ) : (
-                                   <div className={`video-placeholder ${vid.state === 'failed' ? 'error' : ''}`}>
+                                   <div className={`video-placeholder ${vid.state === 'failed' ? 'error' : ''} ${vid.state === 'cancelled' ? 'cancelled' : ''}`}>
                                        {vid.state === 'generating' && (
                                            <img src={WATERMARK_URL} className="loading-pulse-logo" style={{width:30, height:30}} alt="Generating..." />
                                        )}
                                        {vid.state === 'failed' && <span>Generation Failed</span>}
+                                       {vid.state === 'cancelled' && <span>Cancelled</span>}
                                        {vid.state === 'generating' && <span>Generating...</span>}
+                                       {vid.state === 'generating' && (
+                                           <button className="cancel-btn" onClick={() => cancelVideo(vid.id)}>Cancel</button>
+                                       )}
                                    </div>
                                )}
                                {vid.state === 'completed' && (
@@ -2872,12 +7550,13 @@ const App: React.FC = () => {
 
                     <button 
                         className="translate-action-btn" 
-                        onClick={handleTranslate}
-                        disabled={isTranslating || !transInput.trim()}
+                        onClick={isTranslating ? () => translateAbortRef.current?.abort() : handleTranslate}
+                        disabled={!isTranslating && !transInput.trim()}
+                        title={isTranslating ? 'Cancel translation' : undefined}
                     >
                         {isTranslating ? (
                             <>
-                                <span className="spinner-sm"></span> Translating...
+                                <span className="spinner-sm"></span> Translating... (tap to cancel)
                             </>
                         ) : 'Translate'}
                     </button>
@@ -2944,7 +7623,7 @@ const App: React.FC = () => {
       {editingImage && (
           <div className="editor-overlay">
              <div className="editor-header">
-                 <button className="editor-nav-btn" onClick={() => setEditingImage(null)}>
+                 <button className="editor-nav-btn" onClick={() => { editAbortRef.current?.abort(); setEditingImage(null); }}>
                      <svg viewBox="0 0 24 24" fill="currentColor"><path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z"/></svg>
                  </button>
                  <div className="editor-title">Edit Image</div>
@@ -2960,6 +7639,9 @@ const App: React.FC = () => {
                          <div className="loading-pill">
                             <img src={WATERMARK_URL} className="loading-pulse-logo-mini" alt="" />
                             <span>AI Processing...</span>
+                            {editAbortRef.current && (
+                                <button className="cancel-btn" onClick={() => editAbortRef.current?.abort()}>Cancel</button>
+                            )}
                          </div>
                     </div>
                 )}